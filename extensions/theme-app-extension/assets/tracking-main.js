@@ -13,6 +13,8 @@
     version: '1.0.0',
     isLoaded: function() { return true; },
     config: {},
+    remoteConfig: null,
+    sampled: true,
     sessionId: null,
     userId: null,
     
@@ -68,13 +70,65 @@
         baseUrl: window.location.origin,
         endpoints: {
           collect: window.location.origin + '/collect',
-          config: window.location.origin + '/config.json'
+          config: window.location.origin + '/config.json?shop=' + encodeURIComponent(shop)
         },
         shop: shop,
         timestamp: Date.now()
       };
       
       console.log('📋 HRL Tracking: Konfigürasyon yüklendi', this.config);
+      
+      this.loadRemoteConfig();
+    },
+    
+    // Mağaza bazlı konfigürasyonu sunucudan al (/config.json)
+    loadRemoteConfig: function() {
+      fetch(this.config.endpoints.config, { credentials: 'omit' })
+        .then(response => {
+          if (!response.ok) {
+            throw new Error('HTTP ' + response.status);
+          }
+          return response.json();
+        })
+        .then(remoteConfig => {
+          this.remoteConfig = remoteConfig;
+          this.sampled = this.isSessionSampled(remoteConfig.sampling_rate);
+          
+          if (remoteConfig.endpoints && remoteConfig.endpoints.collect) {
+            this.config.endpoints.collect = remoteConfig.endpoints.collect;
+          }
+          
+          console.log('📋 HRL Tracking: Mağaza konfigürasyonu alındı', remoteConfig);
+        })
+        .catch(error => {
+          console.warn('⚠️ HRL Tracking: Mağaza konfigürasyonu alınamadı, varsayılanlar kullanılıyor', error);
+        });
+    },
+    
+    // Session bazlı örnekleme kararı (session boyunca sabit kalır)
+    isSessionSampled: function(samplingRate) {
+      if (typeof samplingRate !== 'number' || samplingRate >= 1) {
+        return true;
+      }
+      
+      let roll = parseFloat(sessionStorage.getItem('hrl_sample_roll'));
+      if (isNaN(roll)) {
+        roll = Math.random();
+        sessionStorage.setItem('hrl_sample_roll', String(roll));
+      }
+      return roll < samplingRate;
+    },
+    
+    // Event tipinin konfigürasyona göre gönderilip gönderilmeyeceğini kontrol et
+    isEventEnabled: function(eventType) {
+      const remote = this.remoteConfig;
+      if (!remote) {
+        return true;
+      }
+      if (remote.enabled === false || !this.sampled) {
+        return false;
+      }
+      return !Array.isArray(remote.events) || remote.events.indexOf(eventType) !== -1;
     },
     
     // URL'den shop bilgisini al
@@ -130,6 +184,10 @@
         return;
       }
       
+      if (!this.isEventEnabled(eventType)) {
+        return;
+      }
+      
       const eventData = {
         type: eventType,
         timestamp: Date.now(),
@@ -183,12 +241,18 @@
     
     // Heartbeat başlat
     startHeartbeat: function() {
-      // Her 30 saniyede bir heartbeat gönder
-      setInterval(() => {
-        this.trackEvent('heartbeat', {
-          duration: Date.now() - (this.config.timestamp || Date.now())
-        });
-      }, 30000);
+      // Varsayılan 30 saniye; mağaza konfigürasyonu geldiyse onun interval'ı kullanılır
+      const scheduleNext = () => {
+        const interval = (this.remoteConfig && this.remoteConfig.heartbeat_interval_ms) || 30000;
+        setTimeout(() => {
+          this.trackEvent('heartbeat', {
+            duration: Date.now() - (this.config.timestamp || Date.now())
+          });
+          scheduleNext();
+        }, interval);
+      };
+      
+      scheduleNext();
     },
     
     // Debug bilgileri
@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // Type errors are reported for test files only; sources are checked by tsc
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { exclude: ['!**/*.test.ts'] } }],
+  },
+};
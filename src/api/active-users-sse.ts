@@ -0,0 +1,145 @@
+/**
+ * Active Users Server-Sent Events
+ *
+ * GET /api/active-users/:shop/stream delivers the same updates as the
+ * WebSocket feed for dashboards and proxies that cannot hold WebSockets.
+ *
+ * Tick updates carry the id of their entry in the per-shop Redis replay
+ * buffer. A reconnecting EventSource sends it back as Last-Event-ID and gets
+ * the updates it missed; when that id has already been trimmed from the
+ * buffer (or none is sent) the stream starts with a fresh snapshot instead.
+ * Comment lines are written periodically so idle connections stay open.
+ */
+
+import { FastifyInstance } from 'fastify';
+import {
+  ActiveUsersManager,
+  ActiveUsersStreamResponse,
+  shopSchema,
+  SSE_KEEP_ALIVE_MS,
+  SSE_RETRY_MS,
+} from '../tracking/active-users';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('active-users-sse');
+
+// Redis Stream entry id: <ms>-<seq>
+const EVENT_ID_PATTERN = /^\d+-\d+$/;
+
+/**
+ * Compare two Redis Stream entry ids
+ */
+function compareEventIds(a: string, b: string): number {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number);
+  return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+/**
+ * Read Last-Event-ID from the header, or the last_event_id query parameter
+ * for clients that open a fresh EventSource
+ */
+function getLastEventId(header: string | string[] | undefined, query: unknown): string | undefined {
+  const fromQuery = (query as { last_event_id?: unknown } | undefined)?.last_event_id;
+  const value = (Array.isArray(header) ? header[0] : header) ?? fromQuery;
+  return typeof value === 'string' && EVENT_ID_PATTERN.test(value.trim())
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Register the SSE stream route
+ */
+export function registerActiveUsersSse(
+  fastify: FastifyInstance,
+  activeUsersManager: ActiveUsersManager
+): void {
+  fastify.get('/api/active-users/:shop/stream', async (request, reply) => {
+    const { shop } = request.params as { shop: string };
+
+    if (!shopSchema.safeParse(shop).success) {
+      reply.code(400);
+      return {
+        success: false,
+        error: 'Invalid shop',
+      };
+    }
+
+    const lastEventId = getLastEventId(request.headers['last-event-id'], request.query);
+
+    // Take over the raw response; headers set by plugins (CORS) are carried over
+    reply.hijack();
+    const res = reply.raw;
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) res.setHeader(name, value);
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    const write = (event: string, data: unknown, id?: string): void => {
+      if (res.writableEnded) return;
+      res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let lastSentId = lastEventId;
+    const sendUpdate = (update: ActiveUsersStreamResponse, eventId?: string): void => {
+      // Skip tick updates already delivered by the replay
+      if (eventId && lastSentId && compareEventIds(eventId, lastSentId) <= 0) return;
+      write('update', update, eventId);
+      if (eventId) lastSentId = eventId;
+    };
+
+    // Live updates are queued until the replay or snapshot has been written
+    let queued: Array<{ update: ActiveUsersStreamResponse; eventId?: string | undefined }> | null =
+      [];
+    const unsubscribe = activeUsersManager.subscribeToStream(shop, (update, eventId) => {
+      if (queued) {
+        queued.push({ update, eventId });
+        return;
+      }
+      sendUpdate(update, eventId);
+    });
+
+    const keepAlive = setInterval(() => {
+      if (!res.writableEnded) res.write(': keep-alive\n\n');
+    }, SSE_KEEP_ALIVE_MS);
+
+    request.raw.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+
+    try {
+      const missed = lastEventId ? await activeUsersManager.replayStream(shop, lastEventId) : null;
+
+      if (missed) {
+        for (const event of missed) {
+          sendUpdate(event.data, event.id);
+        }
+      } else {
+        const [snapshot, latestEventId] = await Promise.all([
+          activeUsersManager.getStreamSnapshot(shop),
+          activeUsersManager.getLatestStreamEventId(shop),
+        ]);
+        write('snapshot', snapshot, latestEventId ?? undefined);
+        lastSentId = latestEventId ?? undefined;
+      }
+    } catch (error) {
+      logger.error(`Failed to start active users stream for shop ${shop}:`, error);
+      write('error', { message: 'Failed to load active users' });
+    }
+
+    const pending = queued;
+    queued = null;
+    for (const { update, eventId } of pending) {
+      sendUpdate(update, eventId);
+    }
+
+    return reply;
+  });
+}
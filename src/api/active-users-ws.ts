@@ -0,0 +1,158 @@
+/**
+ * Active Users WebSocket
+ *
+ * Live active users feed for dashboards on /ws/:shop. The path shop is
+ * subscribed on connect; clients can follow more shops over the same socket:
+ *
+ *   → { "type": "subscribe", "shops": ["a.myshopify.com"] }
+ *   → { "type": "unsubscribe", "shops": ["a.myshopify.com"] }
+ *   → { "type": "ping" }
+ *
+ * Every subscription starts with a `snapshot` frame, followed by `update`
+ * frames on each tick and presence change. The server pings every socket
+ * and terminates the ones that did not answer the previous ping.
+ */
+
+import { FastifyInstance } from 'fastify';
+import {
+  ActiveUsersManager,
+  ActiveUsersStreamFrame,
+  streamClientMessageSchema,
+  shopSchema,
+  STREAM_PING_INTERVAL_MS,
+  MAX_STREAM_SUBSCRIPTIONS,
+} from '../tracking/active-users';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('active-users-ws');
+
+/**
+ * Register the /ws/:shop route on a Fastify scope with @fastify/websocket
+ */
+export function registerActiveUsersWebSocket(
+  fastify: FastifyInstance,
+  activeUsersManager: ActiveUsersManager
+): void {
+  fastify.get('/ws/:shop', { websocket: true }, (connection, req) => {
+    const socket = connection.socket;
+    const { shop } = req.params as { shop: string };
+    const subscriptions = new Map<string, () => void>();
+    let isAlive = true;
+
+    const send = (frame: ActiveUsersStreamFrame): void => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(frame));
+      }
+    };
+
+    const subscribe = async (shops: string[]): Promise<void> => {
+      const added: string[] = [];
+
+      for (const target of shops) {
+        if (subscriptions.has(target)) continue;
+        if (subscriptions.size >= MAX_STREAM_SUBSCRIPTIONS) {
+          send({
+            type: 'error',
+            message: `Subscription limit of ${MAX_STREAM_SUBSCRIPTIONS} shops reached`,
+          });
+          break;
+        }
+
+        subscriptions.set(
+          target,
+          activeUsersManager.subscribeToStream(target, update =>
+            send({ type: 'update', data: update })
+          )
+        );
+        added.push(target);
+      }
+
+      if (added.length === 0) return;
+      send({ type: 'subscribed', shops: added });
+
+      for (const target of added) {
+        try {
+          send({ type: 'snapshot', data: await activeUsersManager.getStreamSnapshot(target) });
+        } catch (error) {
+          logger.error(`Failed to load active users snapshot for shop ${target}:`, error);
+          send({ type: 'error', message: `Failed to load snapshot for ${target}` });
+        }
+      }
+    };
+
+    const unsubscribe = (shops: string[]): void => {
+      const removed = shops.filter(target => {
+        const unsubscribeFn = subscriptions.get(target);
+        if (!unsubscribeFn) return false;
+        unsubscribeFn();
+        subscriptions.delete(target);
+        return true;
+      });
+
+      send({ type: 'unsubscribed', shops: removed });
+    };
+
+    // Drop sockets that stopped answering pings (closed tabs, dead proxies)
+    const pingInterval = setInterval(() => {
+      if (!isAlive) {
+        logger.info(`Terminating unresponsive WebSocket for shop: ${shop}`);
+        socket.terminate();
+        return;
+      }
+      isAlive = false;
+      socket.ping();
+    }, STREAM_PING_INTERVAL_MS);
+
+    socket.on('pong', () => {
+      isAlive = true;
+    });
+
+    socket.on('message', async message => {
+      isAlive = true;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(message.toString());
+      } catch {
+        send({ type: 'error', message: 'Invalid message format' });
+        return;
+      }
+
+      const result = streamClientMessageSchema.safeParse(data);
+      if (!result.success) {
+        send({ type: 'error', message: 'Unsupported message' });
+        return;
+      }
+
+      switch (result.data.type) {
+        case 'subscribe':
+          await subscribe(result.data.shops);
+          break;
+        case 'unsubscribe':
+          unsubscribe(result.data.shops);
+          break;
+        case 'ping':
+          send({ type: 'pong', timestamp: Date.now() });
+          break;
+      }
+    });
+
+    socket.on('close', () => {
+      clearInterval(pingInterval);
+      for (const unsubscribeFn of subscriptions.values()) {
+        unsubscribeFn();
+      }
+      subscriptions.clear();
+      logger.info(`WebSocket connection closed for shop: ${shop}`);
+    });
+
+    if (!shopSchema.safeParse(shop).success) {
+      send({ type: 'error', message: 'Invalid shop' });
+      socket.close(1008, 'Invalid shop');
+      return;
+    }
+
+    logger.info(`WebSocket connection established for shop: ${shop}`);
+    void subscribe([shop]);
+  });
+}
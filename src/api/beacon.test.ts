@@ -0,0 +1,87 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { BEACON_BODY_LIMIT_BYTES, registerBeaconParsers } from './beacon';
+
+describe('beacon body parsers', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(async scope => {
+      registerBeaconParsers(scope);
+      scope.post('/beacon', async request => ({ body: request.body ?? null }));
+    });
+    app.post('/json', async request => ({ body: request.body ?? null }));
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const post = (url: string, payload: string, contentType?: string) =>
+    app.inject({
+      method: 'POST',
+      url,
+      payload,
+      headers: contentType ? { 'content-type': contentType } : {},
+    });
+
+  it('parses a text/plain JSON body', async () => {
+    const body = '{"shop":"a.myshopify.com"}';
+    const response = await post('/beacon', body, 'text/plain;charset=UTF-8');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ body: { shop: 'a.myshopify.com' } });
+  });
+
+  it('rejects a text/plain body that is not JSON', async () => {
+    const response = await post('/beacon', 'not json', 'text/plain');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('unwraps a JSON payload field from a form body', async () => {
+    const payload = new URLSearchParams({ payload: '{"visitor_id":"v1"}' }).toString();
+    const response = await post('/beacon', payload, 'application/x-www-form-urlencoded');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ body: { visitor_id: 'v1' } });
+  });
+
+  it('returns plain form fields as an object', async () => {
+    const response = await post(
+      '/beacon',
+      'shop=a.myshopify.com&tab_id=t1',
+      'application/x-www-form-urlencoded'
+    );
+
+    expect(response.json()).toEqual({ body: { shop: 'a.myshopify.com', tab_id: 't1' } });
+  });
+
+  it('parses untyped and octet-stream bodies as JSON', async () => {
+    const octet = await post('/beacon', '{"a":1}', 'application/octet-stream');
+    const untyped = await post('/beacon', '{"a":1}');
+
+    expect(octet.json()).toEqual({ body: { a: 1 } });
+    expect(untyped.json()).toEqual({ body: { a: 1 } });
+  });
+
+  it('treats an empty body as missing', async () => {
+    const response = await post('/beacon', '', 'text/plain');
+
+    expect(response.json()).toEqual({ body: null });
+  });
+
+  it('limits beacon bodies to 64 KiB but not JSON bodies', async () => {
+    const large = JSON.stringify({ data: 'x'.repeat(BEACON_BODY_LIMIT_BYTES) });
+
+    expect((await post('/beacon', large, 'text/plain')).statusCode).toBe(413);
+    expect((await post('/beacon', large, 'application/json')).statusCode).toBe(200);
+  });
+
+  it('keeps the parsers scoped to the beacon routes', async () => {
+    const response = await post('/json', '{"a":1}', 'text/plain');
+
+    expect(response.json()).toEqual({ body: '{"a":1}' });
+  });
+});
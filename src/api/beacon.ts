@@ -0,0 +1,94 @@
+/**
+ * Beacon Body Parsers
+ *
+ * navigator.sendBeacon cannot set custom headers: a string body is sent as
+ * text/plain, URLSearchParams/FormData as application/x-www-form-urlencoded
+ * and an untyped Blob without any Content-Type at all. These parsers turn
+ * such bodies back into plain objects so beacon routes run the same
+ * validation as the JSON path.
+ *
+ * Parsers are registered on an encapsulated Fastify scope, so only the
+ * routes registered inside that scope accept these content types.
+ */
+
+import { FastifyInstance, FastifyRequest } from 'fastify';
+
+// sendBeacon payloads are capped at 64 KiB by browsers. The limit applies to
+// these parsers only; application/json bodies keep the route's default limit.
+export const BEACON_BODY_LIMIT_BYTES = 64 * 1024;
+
+// Form field names that may carry a JSON-encoded payload
+const FORM_PAYLOAD_FIELDS = ['payload', 'data'];
+
+/**
+ * Create a 400 error for Fastify's error handler
+ */
+function badRequest(message: string): Error & { statusCode: number } {
+  return Object.assign(new Error(message), { statusCode: 400 });
+}
+
+/**
+ * Parse a JSON text body
+ */
+function parseJsonText(body: string): unknown {
+  if (body.trim() === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw badRequest('Beacon body is not valid JSON');
+  }
+}
+
+/**
+ * Parse a form-urlencoded body. A single payload/data field holding JSON is
+ * unwrapped; otherwise fields are returned as a flat object.
+ */
+function parseFormBody(body: string): unknown {
+  const params = new URLSearchParams(body);
+
+  for (const field of FORM_PAYLOAD_FIELDS) {
+    const value = params.get(field);
+    if (value !== null) {
+      return parseJsonText(value);
+    }
+  }
+
+  return Object.fromEntries(params.entries());
+}
+
+/**
+ * Wrap a string parser as a Fastify body parser callback
+ */
+function toBodyParser(parse: (body: string) => unknown) {
+  return (
+    _request: FastifyRequest,
+    body: string | Buffer,
+    done: (error: Error | null, body?: unknown) => void
+  ): void => {
+    try {
+      done(null, parse(body.toString()));
+    } catch (error) {
+      done(error as Error, undefined);
+    }
+  };
+}
+
+/**
+ * Register beacon content-type parsers on the given scope
+ */
+export function registerBeaconParsers(fastify: FastifyInstance): void {
+  const options = { parseAs: 'string', bodyLimit: BEACON_BODY_LIMIT_BYTES } as const;
+
+  fastify.addContentTypeParser('text/plain', options, toBodyParser(parseJsonText));
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    options,
+    toBodyParser(parseFormBody)
+  );
+
+  // Untyped Blob bodies (no Content-Type) and application/octet-stream
+  fastify.addContentTypeParser('*', options, toBodyParser(parseJsonText));
+}
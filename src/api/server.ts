@@ -17,14 +17,37 @@ import staticFiles from '@fastify/static';
 import websocket from '@fastify/websocket';
 import { join } from 'path';
 import { DatabaseManager } from '../database/database-manager';
-import { ActiveUsersManager } from '../tracking/active-users';
+import {
+  ActiveUsersManager,
+  ActiveUsersValidationError,
+  alertsQuerySchema,
+  breakdownQuerySchema,
+  historyQuerySchema,
+  parsePayload,
+  shopSchema,
+  topDimensionQuerySchema,
+} from '../tracking/active-users';
+import {
+  EventCollector,
+  CollectValidationError,
+  ClientConfigProvider,
+  CLIENT_CONFIG_MAX_AGE_SECONDS
+} from '../tracking/core';
+import { ApiResponse, CollectResponse } from '../types';
 import { createLogger } from '../utils/logger';
+import { registerBeaconParsers } from './beacon';
+import { registerActiveUsersWebSocket } from './active-users-ws';
+import { registerActiveUsersSse } from './active-users-sse';
 
 const logger = createLogger('api-server');
 
 export interface ServerConfig {
   port: number;
   host: string;
+  // Public origin used in /config.json endpoint URLs (e.g. https://track.example.com)
+  publicUrl: string | undefined;
+  // Trust X-Forwarded-* headers when running behind a proxy / load balancer
+  trustProxy: boolean;
   cors: {
     origin: string | string[];
     credentials: boolean;
@@ -40,6 +63,8 @@ export class Server {
   private config: ServerConfig;
   private dbManager: DatabaseManager;
   private activeUsersManager: ActiveUsersManager;
+  private eventCollector: EventCollector;
+  private clientConfigProvider: ClientConfigProvider;
 
   constructor(
     dbManager: DatabaseManager, 
@@ -48,11 +73,15 @@ export class Server {
   ) {
     this.dbManager = dbManager;
     this.activeUsersManager = activeUsersManager;
+    this.eventCollector = new EventCollector(dbManager);
+    this.clientConfigProvider = new ClientConfigProvider(dbManager);
     
     // Default configuration
     this.config = {
       port: parseInt(process.env.PORT || '3000'),
       host: process.env.HOST || '0.0.0.0',
+      publicUrl: process.env['PUBLIC_URL']?.replace(/\/+$/, '') || undefined,
+      trustProxy: process.env['TRUST_PROXY'] === 'true',
       cors: {
         origin: process.env.CORS_ORIGIN?.split(',') || '*',
         credentials: true
@@ -66,6 +95,7 @@ export class Server {
 
     // Fastify server options
     const serverOptions: FastifyServerOptions = {
+      trustProxy: this.config.trustProxy,
       logger: {
         level: process.env.LOG_LEVEL || 'info',
         transport: process.env.NODE_ENV === 'development' ? {
@@ -183,79 +213,268 @@ export class Server {
       }
     });
 
-    // Heartbeat endpoint
-    this.fastify.post('/api/heartbeat', async (request, reply) => {
+    // Historical series from the minutely and daily tables, in the shop's timezone
+    this.fastify.get('/api/active-users/:shop/history', async (request, reply) => {
       try {
-        const payload = request.body;
-        const response = await this.activeUsersManager.processHeartbeat(payload);
-        
+        const shop = parsePayload(shopSchema, (request.params as { shop: string }).shop);
+        const query = parsePayload(historyQuerySchema, request.query);
+        const history = await this.activeUsersManager.getActiveUsersHistory(shop, query);
+
         return {
           success: true,
-          data: response
+          data: history
         };
       } catch (error) {
-        logger.error('Heartbeat processing failed:', error);
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+
+        logger.error('Failed to get active users history:', error);
         reply.code(500);
         return {
           success: false,
-          error: 'Heartbeat processing failed'
+          error: 'Failed to get active users history'
         };
       }
     });
 
-    // Page unload endpoint
-    this.fastify.post('/api/page-unload', async (request, reply) => {
+    // Recent spike / drop alerts raised by the anomaly detector
+    this.fastify.get('/api/active-users/:shop/alerts', async (request, reply) => {
+      try {
+        const shop = parsePayload(shopSchema, (request.params as { shop: string }).shop);
+        const { limit } = parsePayload(alertsQuerySchema, request.query);
+        const alerts = await this.activeUsersManager.getActiveUsersAlerts(shop, limit);
+
+        return {
+          success: true,
+          data: {
+            shop,
+            timestamp: Date.now(),
+            alerts
+          }
+        };
+      } catch (error) {
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+
+        logger.error('Failed to get active users alerts:', error);
+        reply.code(500);
+        return {
+          success: false,
+          error: 'Failed to get active users alerts'
+        };
+      }
+    });
+
+    // Live visitors per page path / page type, ranked
+    this.fastify.get('/api/active-users/:shop/pages', async (request, reply) => {
+      try {
+        const shop = parsePayload(shopSchema, (request.params as { shop: string }).shop);
+        const { by, limit } = parsePayload(topDimensionQuerySchema, request.query);
+        const pages = await this.activeUsersManager.getTopPages(shop, by, limit);
+
+        return {
+          success: true,
+          data: {
+            shop,
+            dimension: by,
+            timestamp: Date.now(),
+            pages
+          }
+        };
+      } catch (error) {
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+
+        logger.error('Failed to get active pages:', error);
+        reply.code(500);
+        return {
+          success: false,
+          error: 'Failed to get active pages'
+        };
+      }
+    });
+
+    // Live visitors by device, browser, country and referrer channel
+    this.fastify.get('/api/active-users/:shop/breakdowns', async (request, reply) => {
+      try {
+        const shop = parsePayload(shopSchema, (request.params as { shop: string }).shop);
+        const { limit } = parsePayload(breakdownQuerySchema, request.query);
+        const breakdowns = await this.activeUsersManager.getActiveUsersBreakdowns(shop, limit);
+
+        return {
+          success: true,
+          data: breakdowns
+        };
+      } catch (error) {
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+
+        logger.error('Failed to get active users breakdowns:', error);
+        reply.code(500);
+        return {
+          success: false,
+          error: 'Failed to get active users breakdowns'
+        };
+      }
+    });
+
+    // Active users SSE stream (dashboards/proxies without WebSocket support)
+    registerActiveUsersSse(this.fastify, this.activeUsersManager);
+
+    // Heartbeat endpoint
+    this.fastify.post('/api/heartbeat', async (request, reply) => {
       try {
         const payload = request.body;
-        const response = await this.activeUsersManager.processPageUnload(payload);
+        const response = await this.activeUsersManager.processHeartbeat(payload, {
+          ip: request.ip,
+          user_agent: request.headers['user-agent'],
+        });
         
         return {
           success: true,
           data: response
         };
       } catch (error) {
-        logger.error('Page unload processing failed:', error);
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+
+        logger.error('Heartbeat processing failed:', error);
         reply.code(500);
         return {
           success: false,
-          error: 'Page unload processing failed'
+          error: 'Heartbeat processing failed'
         };
       }
     });
 
-    // WebSocket endpoint for real-time updates
-    this.fastify.register(async function (fastify) {
-      fastify.get('/ws/:shop', { websocket: true }, (connection, req) => {
-        const { shop } = req.params as { shop: string };
-        
-        logger.info(`WebSocket connection established for shop: ${shop}`);
+    // Beacon-capable endpoints (sendBeacon text/plain, form and Blob bodies).
+    // Only the beacon parsers are capped at 64 KiB; JSON bodies (batched /collect)
+    // keep Fastify's default 1 MiB limit.
+    this.fastify.register(async (beaconScope) => {
+      registerBeaconParsers(beaconScope);
+
+      // Page unload endpoint
+      beaconScope.post('/api/page-unload', async (request, reply) => {
+        try {
+          const payload = request.body;
+          const response = await this.activeUsersManager.processPageUnload(payload);
         
-        connection.socket.on('message', (message) => {
-          try {
-            const data = JSON.parse(message.toString());
-            logger.debug('WebSocket message received:', data);
-            
-            // Echo back the message for now
-            connection.socket.send(JSON.stringify({
-              type: 'echo',
-              data,
-              timestamp: Date.now()
-            }));
-          } catch (error) {
-            logger.error('WebSocket message parsing error:', error);
-            connection.socket.send(JSON.stringify({
-              type: 'error',
-              message: 'Invalid message format'
-            }));
+          return {
+            success: true,
+            data: response
+          };
+        } catch (error) {
+          if (error instanceof ActiveUsersValidationError) {
+            reply.code(400);
+            return {
+              success: false,
+              error: error.error
+            };
           }
-        });
 
-        connection.socket.on('close', () => {
-          logger.info(`WebSocket connection closed for shop: ${shop}`);
-        });
+          logger.error('Page unload processing failed:', error);
+          reply.code(500);
+          return {
+            success: false,
+            error: 'Page unload processing failed'
+          };
+        }
+      });
+
+      // Event collection endpoint (theme extension)
+      beaconScope.post('/collect', async (request, reply): Promise<ApiResponse<CollectResponse>> => {
+        try {
+          const result = await this.eventCollector.collect(request.body, {
+            ip: request.ip,
+            user_agent: request.headers['user-agent'],
+          });
+
+          return {
+            success: true,
+            data: result
+          };
+        } catch (error) {
+          if (error instanceof CollectValidationError) {
+            reply.code(400);
+            return {
+              success: false,
+              error: 'Invalid event payload',
+              message: error.message
+            };
+          }
+
+          logger.error('Event collection failed:', error);
+          reply.code(500);
+          return {
+            success: false,
+            error: 'Event collection failed'
+          };
+        }
       });
     });
 
+    // Per-shop client configuration (theme extension)
+    this.fastify.get('/config.json', async (request, reply) => {
+      let shop: string;
+      try {
+        shop = parsePayload(shopSchema, (request.query as { shop?: unknown }).shop);
+      } catch (error) {
+        if (error instanceof ActiveUsersValidationError) {
+          reply.code(400);
+          return {
+            success: false,
+            error: error.error
+          };
+        }
+        throw error;
+      }
+
+      // Behind a TLS proxy request.protocol / hostname are only correct with trustProxy
+      const baseUrl = this.config.publicUrl ?? `${request.protocol}://${request.hostname}`;
+      const { config, etag } = await this.clientConfigProvider.getConfig(shop, baseUrl);
+
+      reply.header('ETag', etag);
+      reply.header('Cache-Control', `public, max-age=${CLIENT_CONFIG_MAX_AGE_SECONDS}`);
+
+      const ifNoneMatch = request.headers['if-none-match'];
+      if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+        reply.code(304);
+        return reply.send();
+      }
+
+      return config;
+    });
+
+    // WebSocket endpoint for real-time active users updates
+    this.fastify.register(async (wsScope) => {
+      registerActiveUsersWebSocket(wsScope, this.activeUsersManager);
+    });
+
     // 404 handler
     this.fastify.setNotFoundHandler((request, reply) => {
       reply.code(404).send({
@@ -267,6 +486,16 @@ export class Server {
 
     // Error handler
     this.fastify.setErrorHandler((error, request, reply) => {
+      // Client errors raised by Fastify (body parsing, body limit) keep their status
+      if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500) {
+        reply.code(error.statusCode).send({
+          success: false,
+          error: error.name,
+          message: error.message
+        });
+        return;
+      }
+
       logger.error('Unhandled error:', error);
       
       reply.code(500).send({
@@ -9,6 +9,7 @@ import { DatabaseAdapter, OLTPDatabaseAdapter, OLAPDatabaseAdapter, CacheDatabas
 import { PostgreSQLAdapter } from './adapters/postgresql';
 import { ClickHouseAdapter } from './adapters/clickhouse';
 import { RedisAdapter } from './adapters/redis';
+import { ShopDirectory } from './shop-directory';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('database-manager');
@@ -18,6 +19,7 @@ export class DatabaseManager {
   private clickhouse: OLAPDatabaseAdapter | null = null;
   private redis: CacheDatabaseAdapter | null = null;
   private initialized = false;
+  private shopDirectory = new ShopDirectory(() => this.getPostgreSQL());
 
   constructor() {
     // Initialize adapters based on environment
@@ -90,6 +92,13 @@ export class DatabaseManager {
     return this.redis;
   }
 
+  /**
+   * Get cached shop + plan lookups
+   */
+  public getShopDirectory(): ShopDirectory {
+    return this.shopDirectory;
+  }
+
   /**
    * Get health status of all databases
    */
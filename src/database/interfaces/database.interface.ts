@@ -5,6 +5,12 @@
  * allowing seamless switching between different database types
  */
 
+import {
+  ActiveUsersDailyRow,
+  ActiveUsersMinutelyRow,
+  ActiveUsersStateRow,
+} from '../../tracking/active-users/types';
+
 export interface DatabaseAdapter {
   // Connection management
   connect(): Promise<void>;
@@ -19,6 +25,7 @@ export interface OLTPDatabaseAdapter extends DatabaseAdapter {
   // Application data operations
   createShop(data: ShopData): Promise<Shop>;
   getShop(shopId: string): Promise<Shop | null>;
+  getShopByDomain(domain: string): Promise<Shop | null>;
   updateShop(shopId: string, data: Partial<ShopData>): Promise<Shop>;
   deleteShop(shopId: string): Promise<boolean>;
   
@@ -37,6 +44,12 @@ export interface OLTPDatabaseAdapter extends DatabaseAdapter {
   getProduct(productId: string): Promise<Product | null>;
   updateProduct(productId: string, data: Partial<ProductData>): Promise<Product>;
   deleteProduct(productId: string): Promise<boolean>;
+
+  // Active users EMA checkpoints (keyed on shop)
+  getActiveUsersState(shop: string): Promise<ActiveUsersStateRow | null>;
+  // States whose last_ts is at or after `since`
+  getActiveUsersStates(since: Date): Promise<ActiveUsersStateRow[]>;
+  upsertActiveUsersStates(rows: ActiveUsersStateRow[]): Promise<void>;
 }
 
 export interface OLAPDatabaseAdapter extends DatabaseAdapter {
@@ -58,6 +71,20 @@ export interface OLAPDatabaseAdapter extends DatabaseAdapter {
   getHourlyMetrics(shopId: string, date: Date): Promise<HourlyMetrics>;
   getDailyMetrics(shopId: string, date: Date): Promise<DailyMetrics>;
   getMonthlyMetrics(shopId: string, date: Date): Promise<MonthlyMetrics>;
+
+  // Active users metrics
+  // Idempotent: rows are keyed on (shop, bucket_ts), rewriting a bucket replaces it
+  upsertActiveUsersMinutely(rows: ActiveUsersMinutelyRow[]): Promise<void>;
+  // Minutely rows with from <= bucket_ts < to, ordered by bucket_ts
+  getActiveUsersMinutely(shop: string, from: Date, to: Date): Promise<ActiveUsersMinutelyRow[]>;
+  // Distinct shops with minutely rows in [from, to)
+  getActiveUsersMinutelyShops(from: Date, to: Date): Promise<string[]>;
+  // Idempotent: rows are keyed on (shop, day)
+  upsertActiveUsersDaily(rows: ActiveUsersDailyRow[]): Promise<void>;
+  // Most recent rolled up day (YYYY-MM-DD) or null
+  getLatestActiveUsersDay(shop: string): Promise<string | null>;
+  // Daily rows with fromDay <= day <= toDay (YYYY-MM-DD), ordered by day
+  getActiveUsersDaily(shop: string, fromDay: string, toDay: string): Promise<ActiveUsersDailyRow[]>;
 }
 
 export interface CacheDatabaseAdapter extends DatabaseAdapter {
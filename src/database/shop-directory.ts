@@ -0,0 +1,62 @@
+/**
+ * Shop Directory - Cached shop + plan lookups by domain
+ *
+ * Client config (/config.json) and active users settings both resolve the
+ * shop record and its plan on unauthenticated requests. Lookups go through a
+ * single bounded TTL cache so random `shop` values cannot grow memory without
+ * limit, and concurrent requests for a cold shop share one database query.
+ * Unknown shops are cached as `null`; database errors are not cached.
+ */
+
+import { Plan, Shop } from '../types';
+import { TtlCache } from '../utils/ttl-cache';
+import { OLTPDatabaseAdapter } from './interfaces/database.interface';
+
+export const SHOP_DIRECTORY_CACHE_TTL_MS = 60_000;
+export const SHOP_DIRECTORY_MAX_ENTRIES = 10_000;
+
+export interface ShopDirectoryEntry {
+  shop: Shop | null;
+  plan: Plan | null;
+}
+
+export class ShopDirectory {
+  private getOltp: () => OLTPDatabaseAdapter;
+  private cache: TtlCache<ShopDirectoryEntry>;
+
+  /**
+   * @param getOltp - Returns the OLTP adapter (resolved lazily per lookup)
+   * @param ttlMs - Cache entry lifetime (ms)
+   * @param maxEntries - Maximum number of cached shops
+   */
+  constructor(
+    getOltp: () => OLTPDatabaseAdapter,
+    ttlMs: number = SHOP_DIRECTORY_CACHE_TTL_MS,
+    maxEntries: number = SHOP_DIRECTORY_MAX_ENTRIES
+  ) {
+    this.getOltp = getOltp;
+    this.cache = new TtlCache(ttlMs, maxEntries);
+  }
+
+  /**
+   * Get the shop record and its plan
+   * @param domain - Shop domain
+   * @returns Shop and plan (`null` when unknown)
+   */
+  public async getShop(domain: string): Promise<ShopDirectoryEntry> {
+    return await this.cache.getOrLoad(domain, async () => {
+      const oltp = this.getOltp();
+      const shop = await oltp.getShopByDomain(domain);
+      const plan = shop?.plan_id ? await oltp.getPlan(shop.plan_id) : null;
+      return { shop, plan };
+    });
+  }
+
+  /**
+   * Drop cached lookups (call when shop settings or plans change)
+   * @param domain - Shop domain, or every shop when omitted
+   */
+  public invalidate(domain?: string): void {
+    this.cache.invalidate(domain);
+  }
+}
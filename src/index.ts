@@ -23,7 +23,7 @@ async function main() {
     await dbManager.initialize();
     
     // Initialize active users manager
-    const activeUsersManager = new ActiveUsersManager();
+    const activeUsersManager = new ActiveUsersManager(dbManager);
     await activeUsersManager.start();
     
     // Create and start server
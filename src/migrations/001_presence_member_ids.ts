@@ -0,0 +1,100 @@
+/**
+ * Migration 001 - Presence member ids
+ *
+ * Legacy presence ZSETs stored a JSON blob (RedisPresenceData) as the member.
+ * The current model stores the visitor/session id as the member and keeps
+ * the metadata in a companion hash:
+ *
+ *   presence:v:<shop>  member = visitor_id   presence:vm:<shop> field = visitor_id
+ *   presence:s:<shop>  member = session_id   presence:sm:<shop> field = session_id
+ *
+ * This migration rewrites legacy members in place. It is idempotent: members
+ * that are already plain ids are left untouched.
+ */
+
+import { redis } from '../utils/redis';
+import { createLogger } from '../utils/logger';
+import { REDIS_KEYS } from '../tracking/active-users/constants';
+import { RedisPresenceData } from '../tracking/active-users/types';
+
+const logger = createLogger('migration:001');
+
+export const name = '001_presence_member_ids';
+
+/**
+ * Rewrite every ZSET matching `<prefix>:*`
+ */
+async function migratePrefix(
+  prefix: string,
+  metaPrefix: string,
+  idField: 'visitor_id' | 'session_id'
+): Promise<number> {
+  const client = redis.getClient();
+  const stream = client.scanStream({ match: `${prefix}:*`, count: 100 });
+  let migrated = 0;
+
+  for await (const keys of stream as AsyncIterable<string[]>) {
+    for (const key of keys) {
+      const shop = key.slice(prefix.length + 1);
+      const metaKey = `${metaPrefix}:${shop}`;
+      const members = await client.zrange(key, 0, -1, 'WITHSCORES');
+      const pipeline = client.multi();
+      const latest = new Map<string, { score: number; member: string }>();
+      let changed = 0;
+
+      for (let i = 0; i < members.length; i += 2) {
+        const member = members[i] as string;
+        const score = Number(members[i + 1]);
+
+        if (!member.startsWith('{')) continue;
+
+        pipeline.zrem(key, member);
+        changed++;
+
+        try {
+          const data = JSON.parse(member) as RedisPresenceData;
+          const id = data[idField];
+          const current = id ? latest.get(id) : undefined;
+
+          if (id && (!current || current.score < score)) {
+            latest.set(id, { score, member });
+          }
+        } catch {
+          // Unparseable legacy member, drop it
+        }
+      }
+
+      for (const [id, { score, member }] of latest) {
+        // GT: never move back an id that was already re-added in the new format
+        pipeline.zadd(key, 'GT', score, id);
+        pipeline.hsetnx(metaKey, id, member);
+      }
+
+      if (changed > 0) {
+        const ttl = await client.pttl(key);
+        if (ttl > 0) {
+          pipeline.pexpire(metaKey, ttl);
+        }
+        await pipeline.exec();
+        migrated += changed;
+      }
+    }
+  }
+
+  return migrated;
+}
+
+export async function up(): Promise<void> {
+  const visitors = await migratePrefix(
+    REDIS_KEYS.PRESENCE_VISITORS,
+    REDIS_KEYS.PRESENCE_VISITOR_META,
+    'visitor_id'
+  );
+  const sessions = await migratePrefix(
+    REDIS_KEYS.PRESENCE_SESSIONS,
+    REDIS_KEYS.PRESENCE_SESSION_META,
+    'session_id'
+  );
+
+  logger.info(`Migrated ${visitors} visitor and ${sessions} session presence members`);
+}
@@ -0,0 +1,38 @@
+/**
+ * Migration Runner
+ *
+ * Runs all migrations in order. Every migration must be idempotent so the
+ * runner can be executed on each deploy (`npm run migrate`).
+ */
+
+import { redis } from '../utils/redis';
+import { createLogger } from '../utils/logger';
+import * as presenceMemberIds from './001_presence_member_ids';
+
+const logger = createLogger('migrate');
+
+interface Migration {
+  name: string;
+  up(): Promise<void>;
+}
+
+const migrations: Migration[] = [presenceMemberIds];
+
+async function migrate(): Promise<void> {
+  await redis.connect();
+
+  try {
+    for (const migration of migrations) {
+      logger.info(`Running migration ${migration.name}`);
+      await migration.up();
+    }
+    logger.info('All migrations completed');
+  } finally {
+    await redis.disconnect();
+  }
+}
+
+migrate().catch(error => {
+  logger.error('Migration failed:', error);
+  process.exit(1);
+});
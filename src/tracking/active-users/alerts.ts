@@ -0,0 +1,222 @@
+/**
+ * Active Users Alerts
+ *
+ * Bu dosya anomaly detector'ın ürettiği alert'lerin saklanmasını ve
+ * gönderilmesini yönetir:
+ *
+ * - presence:alert:cd:<shop>:<kind> STRING  cooldown süresince aynı türde
+ *   ikinci alert gönderilmez (SET NX PX); anomali sürerse alert her cooldown
+ *   sonunda tekrarlanır, eşik etrafında gidip gelen trafik flap üretmez.
+ * - presence:alerts:<shop>          LIST    son alert'ler (dashboard / API)
+ * - OLAP events tablosu                     event_type = active_users_alert
+ * - alert_webhook_url                       JSON POST; gövde shop'a özel secret ile
+ *   HMAC-SHA256 imzalanır (bkz. ShopSettingsResolver.getWebhookSecret). Secret
+ *   çözülemezse ACTIVE_USERS_WEBHOOK_SECRET yedek olarak kullanılır.
+ *
+ * Webhook sadece public https adreslerine teslim edilir (bkz. webhook.ts).
+ * Webhook teslimi tick'i bekletmez; başarısız istekler max_retry_attempts
+ * kadar artan beklemeyle tekrar denenir.
+ */
+
+import { createHmac } from 'crypto';
+import { DatabaseManager } from '../../database/database-manager';
+import { redis } from '../../utils/redis';
+import { ActiveUsersAlert, ActiveUsersConfig } from './types';
+import { postWebhook } from './webhook';
+import {
+  REDIS_KEYS,
+  ALERT_HISTORY_MAXLEN,
+  ALERT_HISTORY_TTL_MS,
+  ALERT_WEBHOOK_TIMEOUT_MS,
+  ALERT_EVENT_TYPE,
+  RETRY_DELAY_MS,
+} from './constants';
+
+export const ALERT_WEBHOOK_EVENT = 'active_users.alert';
+
+/**
+ * Webhook gövdesinin imzasını hesaplar. Alıcı `${timestamp}.${body}`
+ * üzerinden aynı HMAC'i hesaplayıp X-Active-Users-Signature ile karşılaştırır.
+ * @param body - JSON gövde
+ * @param timestamp - X-Active-Users-Timestamp değeri (ms)
+ * @param secret - Paylaşılan secret
+ * @returns sha256=<hex> formatında imza
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+export class AlertDispatcher {
+  private dbManager: DatabaseManager | undefined;
+  private maxRetryAttempts: number;
+  private getWebhookSecret: (shop: string) => Promise<string | null>;
+
+  /**
+   * @param dbManager - Verilirse alert'ler OLAP events tablosuna da yazılır
+   * @param maxRetryAttempts - Webhook isteği için maksimum tekrar sayısı
+   * @param getWebhookSecret - Shop'un webhook imza secret'ını döndürür
+   */
+  constructor(
+    dbManager: DatabaseManager | undefined,
+    maxRetryAttempts: number,
+    getWebhookSecret: (shop: string) => Promise<string | null>
+  ) {
+    this.dbManager = dbManager;
+    this.maxRetryAttempts = maxRetryAttempts;
+    this.getWebhookSecret = getWebhookSecret;
+  }
+
+  /**
+   * Alert'i cooldown dışındaysa saklar ve webhook'a gönderir
+   * @param alert - Detector'ın ürettiği alert
+   * @param config - Shop'un efektif konfigürasyonu
+   * @returns Alert gönderildiyse true, cooldown'daysa false
+   */
+  public async dispatch(alert: ActiveUsersAlert, config: ActiveUsersConfig): Promise<boolean> {
+    const cooldownKey = `${REDIS_KEYS.ALERT_COOLDOWN}:${alert.shop}:${alert.kind}`;
+    const acquired = await redis
+      .getClient()
+      .set(cooldownKey, alert.id, 'PX', config.alert_cooldown_ms, 'NX');
+
+    if (acquired !== 'OK') return false;
+
+    console.warn(
+      `Active users ${alert.kind} detected for shop ${alert.shop}: ` +
+        `au_raw=${alert.au_raw} fast=${alert.au_ema_fast.toFixed(1)} slow=${alert.au_ema_slow.toFixed(1)}`
+    );
+
+    await this.store(alert);
+
+    const webhookUrl = config.alert_webhook_url;
+    if (webhookUrl) {
+      void this.deliver(alert, webhookUrl);
+    }
+
+    return true;
+  }
+
+  /**
+   * Shop'un son alert'lerini getirir
+   * @param shop - Mağaza kimliği
+   * @param limit - Maksimum alert sayısı
+   * @returns En yenisi başta olacak şekilde alert'ler
+   */
+  public async getRecentAlerts(
+    shop: string,
+    limit: number = ALERT_HISTORY_MAXLEN
+  ): Promise<ActiveUsersAlert[]> {
+    const entries = await redis.getClient().lrange(`${REDIS_KEYS.ALERTS}:${shop}`, 0, limit - 1);
+    const alerts: ActiveUsersAlert[] = [];
+
+    for (const entry of entries) {
+      try {
+        alerts.push(JSON.parse(entry) as ActiveUsersAlert);
+      } catch {
+        // Bozuk kayıt atlanır
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Alert'i Redis listesine ve OLAP events tablosuna yazar
+   * @param alert - Alert
+   */
+  private async store(alert: ActiveUsersAlert): Promise<void> {
+    const key = `${REDIS_KEYS.ALERTS}:${alert.shop}`;
+
+    try {
+      await redis
+        .getClient()
+        .multi()
+        .lpush(key, JSON.stringify(alert))
+        .ltrim(key, 0, ALERT_HISTORY_MAXLEN - 1)
+        .pexpire(key, ALERT_HISTORY_TTL_MS)
+        .exec();
+    } catch (error) {
+      console.error('Error storing active users alert:', error);
+    }
+
+    if (!this.dbManager) return;
+
+    try {
+      await this.dbManager.getClickHouse().createEvent({
+        shop_id: alert.shop,
+        user_id: 'system',
+        session_id: alert.id,
+        event_type: ALERT_EVENT_TYPE,
+        event_data: alert,
+        timestamp: new Date(alert.timestamp),
+      });
+    } catch (error) {
+      console.error('Error saving active users alert event:', error);
+    }
+  }
+
+  /**
+   * İmza secret'ını çözer; shop'un secret'ı yoksa veya okunamazsa
+   * ACTIVE_USERS_WEBHOOK_SECRET kullanılır
+   * @param shop - Mağaza kimliği
+   * @returns Secret (hiçbiri yoksa undefined, istek imzasız gönderilir)
+   */
+  private async resolveSecret(shop: string): Promise<string | undefined> {
+    try {
+      const secret = await this.getWebhookSecret(shop);
+      if (secret) return secret;
+    } catch (error) {
+      console.error(`Error resolving alert webhook secret for shop ${shop}:`, error);
+    }
+
+    return process.env['ACTIVE_USERS_WEBHOOK_SECRET'];
+  }
+
+  /**
+   * Alert'i webhook'a POST eder; ağ hataları, 429 ve 5xx yanıtları tekrar denenir
+   * @param alert - Alert
+   * @param url - Webhook URL'i
+   */
+  private async deliver(alert: ActiveUsersAlert, url: string): Promise<void> {
+    const body = JSON.stringify({ type: ALERT_WEBHOOK_EVENT, alert });
+    const secret = await this.resolveSecret(alert.shop);
+
+    for (let attempt = 0; attempt <= this.maxRetryAttempts; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+
+      // Her denemede yeni timestamp, alıcı eski imzaları reddedebilsin
+      const timestamp = Date.now();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Active-Users-Event': ALERT_WEBHOOK_EVENT,
+        'X-Active-Users-Delivery': alert.id,
+        'X-Active-Users-Timestamp': String(timestamp),
+      };
+      if (secret) {
+        headers['X-Active-Users-Signature'] = signWebhookPayload(body, timestamp, secret);
+      }
+
+      try {
+        const status = await postWebhook(url, headers, body, ALERT_WEBHOOK_TIMEOUT_MS);
+
+        if (status >= 200 && status < 300) return;
+
+        if (status !== 429 && status < 500) {
+          console.error(`Alert webhook for shop ${alert.shop} rejected with status ${status}`);
+          return;
+        }
+      } catch (error) {
+        if (attempt === this.maxRetryAttempts) {
+          console.error(`Error delivering alert webhook for shop ${alert.shop}:`, error);
+          return;
+        }
+      }
+    }
+
+    console.error(
+      `Alert webhook for shop ${alert.shop} failed after ${this.maxRetryAttempts + 1} attempts`
+    );
+  }
+}
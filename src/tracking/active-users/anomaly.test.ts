@@ -0,0 +1,126 @@
+import { AnomalyDetector, detectAnomaly } from './anomaly';
+import { calculateEMAResult } from './ema';
+import { ANOMALY_SENSITIVITY_PRESETS } from './constants';
+import { AnomalySensitivity, EMAState } from './types';
+
+const SHOP = 'test-shop.myshopify.com';
+const T0 = 1_700_000_000_000;
+const MEDIUM = ANOMALY_SENSITIVITY_PRESETS.medium;
+
+function emaState(fast: number, slow: number, lastTs: number = T0): EMAState {
+  return { ema_fast: fast, ema_slow: slow, last_ts: lastTs, last_au_raw: fast };
+}
+
+describe('detectAnomaly', () => {
+  const detect = (auRaw: number, fast: number, slow: number) =>
+    detectAnomaly(auRaw, calculateEMAResult(emaState(fast, slow)), MEDIUM);
+
+  it('detects a spike above the slow EMA', () => {
+    expect(detect(30, 30, 20)).toEqual({ kind: 'spike', severity: 'warning', deviation: 0.5 });
+  });
+
+  it('detects a drop below the slow EMA', () => {
+    expect(detect(10, 10, 20)).toEqual({ kind: 'drop', severity: 'warning', deviation: -0.5 });
+  });
+
+  it('marks a drop to zero visitors as critical', () => {
+    expect(detect(0, 10, 20)?.severity).toBe('critical');
+  });
+
+  it('ignores deviations below the thresholds', () => {
+    expect(detect(24, 24, 20)).toBeNull();
+    expect(detect(13, 13, 20)).toBeNull();
+  });
+
+  it('measures spikes against min_baseline on small shops', () => {
+    // 1 → 3 visitors is +200% of slow but only +20% of the baseline floor
+    expect(detect(3, 3, 1)).toBeNull();
+    expect(detect(7, 7, 1)?.kind).toBe('spike');
+  });
+
+  it('does not look for drops below min_baseline', () => {
+    expect(detect(0, 0, MEDIUM.min_baseline - 1)).toBeNull();
+  });
+});
+
+describe('AnomalyDetector', () => {
+  let detector: AnomalyDetector;
+  let tick: number;
+
+  beforeEach(() => {
+    detector = new AnomalyDetector();
+    tick = 0;
+  });
+
+  const evaluate = (fast: number, slow: number, sensitivity: AnomalySensitivity = 'medium') =>
+    detector.evaluate(SHOP, fast, emaState(fast, slow, T0 + ++tick * 5_000), sensitivity);
+  const spike = (sensitivity?: AnomalySensitivity) => evaluate(30, 20, sensitivity);
+  const drop = () => evaluate(10, 20);
+  const normal = () => evaluate(20, 20);
+
+  const repeat = (times: number, fn: () => unknown) => {
+    for (let i = 0; i < times; i++) {
+      expect(fn()).toBeNull();
+    }
+  };
+
+  it('alerts once the anomaly lasts confirm_ticks ticks', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+
+    expect(spike()).toMatchObject({
+      shop: SHOP,
+      kind: 'spike',
+      severity: 'warning',
+      sensitivity: 'medium',
+      timestamp: T0 + MEDIUM.confirm_ticks * 5_000,
+      au_raw: 30,
+      au_ema_fast: 30,
+      au_ema_slow: 20,
+      deviation: 0.5,
+      trend: 'up',
+    });
+  });
+
+  it('uses the confirm_ticks of the sensitivity preset', () => {
+    repeat(ANOMALY_SENSITIVITY_PRESETS.high.confirm_ticks - 1, () => spike('high'));
+
+    expect(spike('high')?.kind).toBe('spike');
+  });
+
+  it('restarts the streak after a normal tick', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+    expect(normal()).toBeNull();
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+
+    expect(spike()?.kind).toBe('spike');
+  });
+
+  it('restarts the streak when the kind flips', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+    repeat(MEDIUM.confirm_ticks - 1, drop);
+
+    expect(drop()?.kind).toBe('drop');
+  });
+
+  it('keeps alerting while the anomaly lasts', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+
+    expect(spike()).not.toBeNull();
+    expect(spike()).not.toBeNull();
+  });
+
+  it('never alerts and clears the streak when sensitivity is off', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+    repeat(MEDIUM.confirm_ticks * 2, () => spike('off'));
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+
+    expect(spike()?.kind).toBe('spike');
+  });
+
+  it('forgets streaks of pruned shops', () => {
+    repeat(MEDIUM.confirm_ticks - 1, spike);
+    detector.prune([]);
+
+    expect(spike()).toBeNull();
+  });
+});
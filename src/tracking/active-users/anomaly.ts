@@ -0,0 +1,129 @@
+/**
+ * Active Users Anomaly Detection
+ *
+ * Bu dosya fast ve slow EMA arasındaki farktan ani yükselişleri (bot
+ * trafiği, viral trafik) ve düşüşleri (bozuk checkout, tracking kesintisi)
+ * tespit eder. Fast EMA son dakikaları, slow EMA mağazanın olağan seviyesini
+ * izler; fark hassasiyet eşiğini confirm_ticks kadar ardışık tick aştığında
+ * alert üretilir. Tek tick'lik sıçramalar alert üretmez.
+ *
+ * Detector sadece tick liderinde çalışır ve ardışık tick sayaçlarını bellekte
+ * tutar; lider değişirse sayaçlar sıfırdan başlar. Tekrar gönderimi
+ * engelleyen cooldown Redis'tedir (bkz. alerts.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { calculateEMAResult } from './ema';
+import {
+  ActiveUsersAlert,
+  AnomalyKind,
+  AnomalySensitivity,
+  AnomalySeverity,
+  AnomalyThresholds,
+  EMAResult,
+  EMAState,
+} from './types';
+import { ANOMALY_SENSITIVITY_PRESETS } from './constants';
+
+/**
+ * Tek bir tick'in EMA değerlerinde anomali olup olmadığını kontrol eder
+ * @param auRaw - Raw aktif kullanıcı sayısı
+ * @param emaResult - Güncel EMA sonucu
+ * @param thresholds - Hassasiyet eşikleri
+ * @returns Anomali türü, önemi ve sapma; anomali yoksa null
+ */
+export function detectAnomaly(
+  auRaw: number,
+  emaResult: EMAResult,
+  thresholds: AnomalyThresholds
+): { kind: AnomalyKind; severity: AnomalySeverity; deviation: number } | null {
+  const { ema_fast: fast, ema_slow: slow, trend } = emaResult;
+
+  // Küçük mağazalarda birkaç visitor'lık oynama spike sayılmasın
+  const spikeBaseline = Math.max(slow, thresholds.min_baseline);
+  const spikeDeviation = (fast - slow) / spikeBaseline;
+  if (trend === 'up' && spikeDeviation >= thresholds.spike_ratio) {
+    return { kind: 'spike', severity: 'warning', deviation: spikeDeviation };
+  }
+
+  // Düşüş ancak anlamlı bir baseline varken aranır
+  if (slow < thresholds.min_baseline) return null;
+
+  const dropDeviation = (fast - slow) / slow;
+  if (trend === 'down' && dropDeviation <= -thresholds.drop_ratio) {
+    return {
+      kind: 'drop',
+      severity: auRaw === 0 ? 'critical' : 'warning',
+      deviation: dropDeviation,
+    };
+  }
+
+  return null;
+}
+
+export class AnomalyDetector {
+  private streaks: Map<string, { kind: AnomalyKind; ticks: number }> = new Map();
+
+  /**
+   * Shop'un güncel tick'ini değerlendirir
+   * @param shop - Mağaza kimliği
+   * @param auRaw - Raw aktif kullanıcı sayısı
+   * @param emaState - Bu tick'te güncellenen EMA state
+   * @param sensitivity - Shop'un hassasiyet seviyesi
+   * @returns Anomali confirm_ticks boyunca sürdüyse alert, aksi halde null
+   */
+  public evaluate(
+    shop: string,
+    auRaw: number,
+    emaState: EMAState,
+    sensitivity: AnomalySensitivity
+  ): ActiveUsersAlert | null {
+    if (sensitivity === 'off') {
+      this.streaks.delete(shop);
+      return null;
+    }
+
+    const thresholds: AnomalyThresholds = ANOMALY_SENSITIVITY_PRESETS[sensitivity];
+    const emaResult = calculateEMAResult(emaState);
+    const anomaly = detectAnomaly(auRaw, emaResult, thresholds);
+    if (!anomaly) {
+      this.streaks.delete(shop);
+      return null;
+    }
+
+    // Tür değiştiyse (spike → drop) sayaç baştan başlar
+    const previous = this.streaks.get(shop);
+    const ticks = previous?.kind === anomaly.kind ? previous.ticks + 1 : 1;
+    this.streaks.set(shop, { kind: anomaly.kind, ticks });
+
+    if (ticks < thresholds.confirm_ticks) return null;
+
+    return {
+      id: randomUUID(),
+      shop,
+      kind: anomaly.kind,
+      severity: anomaly.severity,
+      sensitivity,
+      timestamp: emaState.last_ts,
+      au_raw: auRaw,
+      au_ema_fast: emaResult.ema_fast,
+      au_ema_slow: emaResult.ema_slow,
+      deviation: Math.round(anomaly.deviation * 1000) / 1000,
+      trend: emaResult.trend,
+      trend_strength: emaResult.trend_strength,
+    };
+  }
+
+  /**
+   * Registry'den düşen shop'ların sayaçlarını siler
+   * @param activeShops - Registry'deki aktif shop'lar
+   */
+  public prune(activeShops: string[]): void {
+    const active = new Set(activeShops);
+    for (const shop of this.streaks.keys()) {
+      if (!active.has(shop)) {
+        this.streaks.delete(shop);
+      }
+    }
+  }
+}
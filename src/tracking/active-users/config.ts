@@ -0,0 +1,73 @@
+/**
+ * Active Users Configuration
+ *
+ * Bu dosya ActiveUsersManager'ın runtime konfigürasyonunu oluşturur.
+ * Varsayılanlar constants.ts'ten gelir; verilen override'lar
+ * activeUsersConfigSchema ile doğrulanır. Mağaza bazlı override'lar
+ * (Shop.settings.active_users) base konfigürasyonun üzerine uygulanır.
+ */
+
+import { activeUsersConfigSchema } from './schemas';
+import { ActiveUsersConfigError } from './errors';
+import { ActiveUsersConfig, ShopActiveUsersSettings } from './types';
+import {
+  HEARTBEAT_MS,
+  TTL_MS,
+  TICK_MS,
+  EMA_TAU_FAST,
+  EMA_TAU_SLOW,
+  PRESENCE_BATCH_SIZE,
+  MAX_RETRY_ATTEMPTS,
+  ALERT_COOLDOWN_MS,
+} from './constants';
+
+export const DEFAULT_ACTIVE_USERS_CONFIG: ActiveUsersConfig = {
+  heartbeat_interval_ms: HEARTBEAT_MS,
+  ttl_ms: TTL_MS,
+  tick_interval_ms: TICK_MS,
+  ema_tau_fast: EMA_TAU_FAST,
+  ema_tau_slow: EMA_TAU_SLOW,
+  ema_method: 'exponential',
+  enable_redis_pubsub: true,
+  enable_database_logging: true,
+  batch_size: PRESENCE_BATCH_SIZE,
+  max_retry_attempts: MAX_RETRY_ATTEMPTS,
+  anomaly_sensitivity: 'medium',
+  alert_cooldown_ms: ALERT_COOLDOWN_MS,
+  alert_webhook_url: null,
+};
+
+/**
+ * Varsayılanlar + override'lardan doğrulanmış konfigürasyon oluşturur
+ * @param overrides - Varsayılanların üzerine yazılacak alanlar
+ * @returns Doğrulanmış konfigürasyon
+ * @throws ActiveUsersConfigError - Konfigürasyon geçersizse
+ */
+export function createActiveUsersConfig(
+  overrides: Partial<ActiveUsersConfig> = {}
+): ActiveUsersConfig {
+  const result = activeUsersConfigSchema.safeParse({
+    ...DEFAULT_ACTIVE_USERS_CONFIG,
+    ...overrides,
+  });
+
+  if (!result.success) {
+    throw new ActiveUsersConfigError(result.error);
+  }
+
+  return result.data;
+}
+
+/**
+ * Mağaza override'larını base konfigürasyona uygular
+ * @param config - Base konfigürasyon
+ * @param settings - Shop.settings.active_users (doğrulanmış)
+ * @returns Mağazanın efektif konfigürasyonu; birleşim geçersizse base konfigürasyon
+ */
+export function applyShopOverrides(
+  config: ActiveUsersConfig,
+  settings: ShopActiveUsersSettings
+): ActiveUsersConfig {
+  const result = activeUsersConfigSchema.safeParse({ ...config, ...settings });
+  return result.success ? result.data : config;
+}
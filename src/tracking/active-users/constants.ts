@@ -11,6 +11,8 @@
 export const HEARTBEAT_MS = 10_000; // 10 saniye - client heartbeat interval
 export const TTL_MS = 30_000; // 30 saniye - presence TTL
 export const TICK_MS = 5_000; // 5 saniye - server tick interval
+export const ENGAGEMENT_IDLE_MS = 60_000; // 60 saniye etkileşim yoksa sekme idle sayılır
+export const DEFAULT_ENGAGEMENT_STATE = 'active'; // state göndermeyen client'lar aktif sayılır
 
 // EMA Algorithm Constants
 export const EMA_TAU_FAST = 10; // 10 saniye - fast EMA time constant
@@ -18,10 +20,24 @@ export const EMA_TAU_SLOW = 60; // 60 saniye - slow EMA time constant
 
 // Redis Key Patterns
 export const REDIS_KEYS = {
-  PRESENCE_VISITORS: 'presence:v', // ZSET: visitor tracking
-  PRESENCE_SESSIONS: 'presence:s', // ZSET: session tracking
+  PRESENCE_VISITORS: 'presence:v', // ZSET: visitor_id → last seen (ms)
+  PRESENCE_SESSIONS: 'presence:s', // ZSET: session_id → last seen (ms)
+  PRESENCE_VISITOR_META: 'presence:vm', // HASH: visitor_id → RedisPresenceData (JSON)
+  PRESENCE_SESSION_META: 'presence:sm', // HASH: session_id → RedisPresenceData (JSON)
+  PRESENCE_TABS: 'presence:t', // ZSET: <visitor_id>|<tab_id> → last seen (ms)
+  PRESENCE_VISITOR_TABS: 'presence:vt', // ZSET (<shop>:<visitor_id>): tab_id → last seen (ms)
+  PRESENCE_DIMENSION: 'presence:dim', // ZSET (<shop>:<dimension>): value → online visitor sayısı
+  PRESENCE_VISITOR_DIMENSIONS: 'presence:vd', // HASH: <visitor_id>|<dimension> → value
+  ACTIVE_SHOPS: 'presence:shops', // ZSET: shop → last activity (ms)
   EMA_STATE: 'presence:ema', // HSET: EMA state
+  TICK_LEASE: 'presence:lease:tick', // STRING: tick leader instance id (PX)
+  MINUTE_BUCKET: 'presence:min', // HASH: <shop>:<bucket_ms> → tick sample aggregate
+  MINUTE_PENDING: 'presence:min:pending', // ZSET: <shop>|<bucket_ms> → bucket start (ms)
+  ROLLUP_LEASE: 'presence:lease:rollup', // STRING: daily rollup runner instance id (PX)
   PUBSUB_CHANNEL: 'channel:presence', // PUBSUB: dashboard updates
+  STREAM_REPLAY: 'presence:replay', // STREAM: <shop> → son ema_update'ler (SSE Last-Event-ID)
+  ALERT_COOLDOWN: 'presence:alert:cd', // STRING (<shop>:<kind>): son alert id'si (PX = cooldown)
+  ALERTS: 'presence:alerts', // LIST: <shop> → son alert'ler (JSON, en yenisi başta)
 } as const;
 
 // Database Table Names
@@ -34,11 +50,124 @@ export const DB_TABLES = {
 // EMA Calculation Constants
 export const EMA_MIN_ALPHA = 0.001; // Minimum alpha value
 export const EMA_MAX_ALPHA = 0.5; // Maximum alpha value
+export const EMA_LINEAR_WINDOW_FACTOR = 3; // Linear WMA penceresi = tau * 3 (ortalama gecikme ≈ tau)
+export const EMA_ADAPTIVE_WINDOW = 10; // Adaptive efficiency ratio için örnek sayısı
+export const EMA_ADAPTIVE_SPEEDUP = 5; // Adaptive: hızlı değişimde tau en fazla bu oranda kısalır
+export const EMA_GAP_THRESHOLD_MS = TICK_MS * 2; // Bu süreden uzun boşluklarda alpha sınırlanmaz (gerçek decay)
+export const EMA_STATE_TTL_MS = 24 * 60 * 60_000; // 24 saat - Redis'teki EMA state'inin ömrü
+export const EMA_CHECKPOINT_INTERVAL_MS = 60_000; // 1 dakika - active_users_state checkpoint sıklığı
 
 // Presence Tracking Constants
-export const PRESENCE_CLEANUP_INTERVAL_MS = 60_000; // 1 dakika
 export const PRESENCE_BATCH_SIZE = 100; // Batch processing size
 
+// Active Shop Registry Constants
+export const SHOP_REGISTRY_RETENTION_MS = 5 * 60_000; // 5 dakika - son heartbeat'ten sonra EMA'nın sönmesi için
+export const SHOP_REGISTRY_REBUILD_INTERVAL_MS = 60_000; // Boş registry için SCAN rebuild sıklığı
+export const SHOP_REGISTRY_SCAN_COUNT = 100; // SCAN COUNT hint
+
+// Minutely Metrics Constants
+export const MINUTE_BUCKET_MS = 60_000; // 1 dakika - active_users_minutely bucket'ı
+export const MINUTE_BUCKET_TTL_MS = 60 * 60_000; // 1 saat - flush edilemeyen bucket'lar için retry süresi
+export const MINUTELY_FLUSH_BATCH_SIZE = 500; // Tek upsert'te yazılacak maksimum satır
+// Bucket kapandıktan bu kadar tick sonra yazılır; dakika sınırından önce
+// başlamış bir tick'in geç gelen örneği yazılmış satırı ezmesin
+export const MINUTELY_FLUSH_DELAY_TICKS = 2;
+
+// Daily Rollup Constants
+export const DAILY_ROLLUP_CRON = '5 * * * *'; // Her saat :05 - farklı timezone'larda kapanan günler için
+export const DAILY_ROLLUP_BACKFILL_DAYS = 7; // Kaçırılan günler için geriye dönük maksimum gün
+export const DAILY_ROLLUP_LEASE_TTL_MS = 10 * 60_000; // 10 dakika - tek instance'ın rollup çalıştırması için
+export const DAILY_ROLLUP_PERCENTILE = 0.95; // p95_au_raw
+
+// History API Constants
+export const HISTORY_MAX_POINTS = 1_500; // Tek istekte döndürülebilecek maksimum bucket
+// day granularity'de rollup'ı olmayan günlerden en fazla bu kadarı (bugün dahil) minutely'den hesaplanır
+export const HISTORY_MINUTELY_FALLBACK_DAYS = DAILY_ROLLUP_BACKFILL_DAYS + 1;
+export const HISTORY_DEFAULT_RANGE_MS = {
+  minute: 2 * 60 * 60_000, // 2 saat
+  hour: 24 * 60 * 60_000, // 24 saat
+  day: 30 * 24 * 60 * 60_000, // 30 gün
+} as const;
+
+// Adaptive Heartbeat Constants
+// next_heartbeat_in = heartbeat_interval_ms * durum * shop boyutu * plan * yük (± jitter)
+export const HEARTBEAT_STATE_MULTIPLIERS = { active: 1, idle: 2, hidden: 4 } as const;
+export const HEARTBEAT_SHOP_SIZE_TIERS = [
+  { min_visitors: 10_000, multiplier: 2 },
+  { min_visitors: 1_000, multiplier: 1.5 },
+] as const; // Büyük mağazalarda tek visitor'ın hassasiyeti önemsizleşir
+// Plan.features'ında bu özellik olmayan planlar daha seyrek beat gönderir;
+// planı olmayan shop'lar etkilenmez
+export const HEARTBEAT_REALTIME_PLAN_FEATURE = 'realtime_active_users';
+export const HEARTBEAT_STANDARD_PLAN_MULTIPLIER = 2;
+export const HEARTBEAT_LOAD_WINDOW_MS = 10_000; // Instance yükünün ölçüldüğü pencere
+export const HEARTBEAT_LOAD_TARGET_RPS = 500; // Instance başına hedef beat/saniye
+export const HEARTBEAT_MAX_LOAD_MULTIPLIER = 3;
+export const HEARTBEAT_JITTER_RATIO = 0.2; // ±20% - client'lar aynı anda beat göndermesin
+export const MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS = 2 * 60_000; // MAX_PRESENCE_TTL_MS'in altında kalmalı
+
+// Presence Event Constants
+export const PRESENCE_EVENT_TYPE_PREFIX = 'presence_'; // OLAP event_type: presence_session_end vb.
+export const PRESENCE_EVENT_FLUSH_INTERVAL_MS = 5_000; // Bekleyen event'lerin OLAP'a yazılma sıklığı
+export const PRESENCE_EVENT_BUFFER_MAX = 10_000; // Yazılamayan event'ler bu sınırdan sonra düşürülür
+
+// Anomaly Detection Constants
+// Oranlar slow EMA'ya göre: spike = fast >= slow * (1 + spike_ratio), drop = fast <= slow * (1 - drop_ratio).
+// min_baseline altındaki slow EMA'larda drop aranmaz; spike için slow en az min_baseline sayılır ki
+// küçük mağazalarda 1 → 3 visitor alert üretmesin. confirm_ticks kadar ardışık tick gerekir.
+export const ANOMALY_SENSITIVITY_PRESETS = {
+  low: { spike_ratio: 1.0, drop_ratio: 0.6, min_baseline: 20, confirm_ticks: 6 },
+  medium: { spike_ratio: 0.5, drop_ratio: 0.4, min_baseline: 10, confirm_ticks: 4 },
+  high: { spike_ratio: 0.25, drop_ratio: 0.25, min_baseline: 5, confirm_ticks: 2 },
+} as const;
+export const ALERT_COOLDOWN_MS = 30 * 60_000; // 30 dakika - aynı shop ve türde tekrar alert gönderilmez
+export const MIN_ALERT_COOLDOWN_MS = 60_000;
+export const MAX_ALERT_COOLDOWN_MS = 24 * 60 * 60_000;
+export const ALERT_HISTORY_MAXLEN = 50; // Shop başına Redis'te tutulan son alert sayısı
+export const ALERT_HISTORY_TTL_MS = 7 * 24 * 60 * 60_000; // 7 gün
+export const ALERT_WEBHOOK_TIMEOUT_MS = 5_000; // Webhook isteği başına zaman aşımı
+export const ALERT_EVENT_TYPE = 'active_users_alert'; // OLAP events tablosundaki event_type
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const ALERT_WEBHOOK_SECRET_BYTES = 32; // Shop başına üretilen secret (64 hex karakter)
+export const MIN_WEBHOOK_SECRET_LENGTH = 32;
+export const MAX_WEBHOOK_SECRET_LENGTH = 256;
+
+// ActiveUsersConfig Limits
+export const MIN_HEARTBEAT_INTERVAL_MS = 1_000;
+export const MAX_HEARTBEAT_INTERVAL_MS = 60_000;
+export const MIN_PRESENCE_TTL_MS = 5_000;
+export const MAX_PRESENCE_TTL_MS = 10 * 60_000;
+export const MIN_TICK_INTERVAL_MS = 1_000;
+export const MAX_TICK_INTERVAL_MS = 60_000;
+export const MAX_EMA_TAU_SECONDS = 3_600;
+
+// Shop Settings Constants
+export const SHOP_SETTINGS_CACHE_TTL_MS = 60_000; // 1 dakika - Shop.settings.active_users cache süresi
+export const SHOP_SETTINGS_CACHE_MAX_ENTRIES = 10_000; // Doğrulanmamış shop değerleri için üst sınır
+
+// Live Stream Constants
+export const STREAM_PING_INTERVAL_MS = 30_000; // 30 saniye - pong gelmeyen socket'ler kapatılır
+export const MAX_STREAM_SUBSCRIPTIONS = 20; // Socket başına en fazla shop aboneliği
+export const STREAM_REPLAY_MAXLEN = 120; // Shop başına replay buffer'ında tutulan güncelleme (~10 dk)
+export const STREAM_REPLAY_TTL_MS = 15 * 60_000; // 15 dakika - güncelleme gelmeyen buffer'lar silinir
+export const SSE_KEEP_ALIVE_MS = 15_000; // 15 saniye - proxy'lerin boşta bağlantıyı kesmemesi için
+export const SSE_RETRY_MS = 3_000; // Tarayıcının yeniden bağlanma gecikmesi
+
+// Presence Dimension Constants
+export const TOP_DIMENSION_DEFAULT_LIMIT = 10;
+export const TOP_DIMENSION_MAX_LIMIT = 100;
+export const STREAM_TOP_PAGES_LIMIT = 5; // Stream frame'lerinde gönderilen en popüler sayfa sayısı
+export const BREAKDOWN_DEFAULT_LIMIT = 10; // Breakdown başına döndürülen değer sayısı
+export const UNKNOWN_DIMENSION_VALUE = 'unknown'; // UA / IP / viewport'tan çıkarılamayan değerler
+export const TABLET_MIN_VIEWPORT_WIDTH = 768; // px - UA yoksa cihaz sınıfı viewport'tan tahmin edilir
+export const DESKTOP_MIN_VIEWPORT_WIDTH = 1024; // px
+
+// Leader Election
+export const TICK_LEASE_TTL_MS = TICK_MS * 2; // Lider ölürse en geç ~2 tick içinde failover
+// Presence key'leri son üyenin süresi dolduktan bu kadar tick sonra expire olur:
+// failover (2 tick) + bir sweep tick'i, key'ler sweep'ten önce silinmesin
+export const PRESENCE_KEY_EXPIRY_GRACE_TICKS = 3;
+
 // Error Handling Constants
 export const MAX_RETRY_ATTEMPTS = 3;
 export const RETRY_DELAY_MS = 1_000; // 1 saniye
@@ -48,6 +177,29 @@ export const MIN_SHOP_ID_LENGTH = 3;
 export const MAX_SHOP_ID_LENGTH = 100;
 export const MIN_VISITOR_ID_LENGTH = 8;
 export const MAX_VISITOR_ID_LENGTH = 64;
+export const MAX_SESSION_ID_LENGTH = 128;
+export const MAX_TAB_ID_LENGTH = 64;
+export const DEFAULT_TAB_ID = 'default'; // tab_id göndermeyen client'lar tek sekme sayılır
+export const MAX_PAGE_PATH_LENGTH = 2048;
+export const MAX_USER_AGENT_LENGTH = 1024;
+export const MAX_REFERRER_LENGTH = 2048;
+export const MAX_SCREEN_DIMENSION = 100_000; // px
+
+// Error Codes (API yanıtlarında sabit kalmalı)
+export const ACTIVE_USERS_ERROR_CODES = {
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  INVALID_SHOP: 'INVALID_SHOP',
+  INVALID_VISITOR_ID: 'INVALID_VISITOR_ID',
+  INVALID_SESSION_ID: 'INVALID_SESSION_ID',
+  INVALID_TAB_ID: 'INVALID_TAB_ID',
+  INVALID_PAGE_PATH: 'INVALID_PAGE_PATH',
+  INVALID_TIMESTAMP: 'INVALID_TIMESTAMP',
+  INVALID_USER_AGENT: 'INVALID_USER_AGENT',
+  INVALID_REFERRER: 'INVALID_REFERRER',
+  INVALID_STATE: 'INVALID_STATE',
+  INVALID_HISTORY_RANGE: 'INVALID_HISTORY_RANGE',
+  INVALID_DIMENSIONS: 'INVALID_DIMENSIONS',
+} as const;
 
 // Performance Constants
 export const CACHE_TTL_SECONDS = 300; // 5 dakika
@@ -0,0 +1,81 @@
+import { classifyPageType, classifyReferrer, normalizePagePath } from './dimensions';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('normalizePagePath', () => {
+  it.each([
+    ['/products/shirt', '/products/shirt'],
+    ['/products/shirt/', '/products/shirt'],
+    ['/products/shirt?variant=1#reviews', '/products/shirt'],
+    ['/collections/all//', '/collections/all'],
+    ['products/shirt', '/products/shirt'],
+    ['/', '/'],
+    ['', '/'],
+    ['?utm_source=x', '/'],
+  ])('%j → %j', (pagePath, expected) => {
+    expect(normalizePagePath(pagePath)).toBe(expected);
+  });
+});
+
+describe('classifyPageType', () => {
+  it.each([
+    ['/', 'home'],
+    ['/en', 'home'],
+    ['/de-ch', 'home'],
+    ['/products/shirt', 'product'],
+    ['/Products/Shirt', 'product'],
+    ['/collections/summer/products/shirt', 'product'],
+    ['/de-ch/products/shirt', 'product'],
+    ['/fr-CA/collections/summer/products/shirt', 'product'],
+    ['/products', 'other'],
+    ['/collections', 'collection'],
+    ['/collections/summer', 'collection'],
+    ['/en/collections/summer', 'collection'],
+    ['/cart', 'cart'],
+    ['/cart/change', 'cart'],
+    ['/cartoons', 'other'],
+    ['/checkout', 'checkout'],
+    ['/checkouts/cn/abc123', 'checkout'],
+    ['/search', 'search'],
+    ['/account/login', 'account'],
+    ['/accounts', 'other'],
+    ['/blogs/news/launch', 'blog'],
+    ['/pages/about-us', 'page'],
+    ['/policies/refund-policy', 'other'],
+  ])('%s → %s', (pagePath, expected) => {
+    expect(classifyPageType(pagePath)).toBe(expected);
+  });
+});
+
+describe('classifyReferrer', () => {
+  it.each([
+    [undefined, 'direct'],
+    ['', 'direct'],
+    ['not a url', 'direct'],
+    [`https://${SHOP}/products/shirt`, 'internal'],
+    [`https://checkout.${SHOP}/`, 'internal'],
+    ['https://TEST-SHOP.myshopify.com/', 'internal'],
+    ['https://www.google.com/', 'search'],
+    ['https://www.google.co.uk/search?q=shirt', 'search'],
+    ['https://news.google.com/', 'search'],
+    ['https://www.bing.com/', 'search'],
+    ['https://duckduckgo.com/', 'search'],
+    ['https://mail.google.com/mail/u/0/', 'email'],
+    ['https://mail.yahoo.com/', 'email'],
+    ['https://webmail.example.com/', 'email'],
+    ['https://outlook.live.com/mail/', 'email'],
+    ['https://outlook.office.com/', 'email'],
+    ['https://t.co/abc123', 'social'],
+    ['https://x.com/someone/status/1', 'social'],
+    ['https://twitter.com/someone', 'social'],
+    ['https://l.facebook.com/l.php', 'social'],
+    ['https://www.instagram.com/', 'social'],
+    ['https://m.youtube.com/watch?v=1', 'social'],
+    ['https://out.reddit.com/', 'social'],
+    ['https://blog.example.com/best-shirts', 'referral'],
+    ['https://googleblog.example.com/', 'referral'],
+    ['https://box.com/', 'referral'],
+  ])('%s → %s', (referrer, expected) => {
+    expect(classifyReferrer(referrer, SHOP)).toBe(expected);
+  });
+});
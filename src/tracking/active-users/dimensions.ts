@@ -0,0 +1,217 @@
+/**
+ * Presence Dimensions
+ *
+ * Bu dosya online visitor'ların hangi değerlerde (sayfa, sayfa tipi, cihaz,
+ * tarayıcı, ülke, trafik kaynağı) olduğunu sayan boyutları tanımlar. Her heartbeat visitor'ın güncel boyut
+ * değerlerini taşır; sayaçlar Lua script'lerinde visitor ZSET'i ile birlikte
+ * güncellenir:
+ *
+ * - presence:dim:<shop>:<dimension> ZSET  member = değer, score = online visitor sayısı
+ * - presence:vd:<shop>              HASH  field = <visitor_id>|<dimension>, value = değer
+ *
+ * Visitor başka bir değere geçtiğinde eski değerin sayacı bir azalır, yenisi
+ * bir artar; visitor offline olduğunda (unload veya timeout) tüm değerleri
+ * düşülür. Bu yüzden sayaçlar visitor ZSET'i ile tutarlı kalır; dağılımlar
+ * member taranarak değil bu sayaçlardan okunur.
+ */
+
+import UAParser from 'ua-parser-js';
+import {
+  BreakdownDimension,
+  DeviceClass,
+  PageType,
+  PresenceData,
+  PresenceDimension,
+  ReferrerChannel,
+} from './types';
+import {
+  REDIS_KEYS,
+  DEFAULT_ENGAGEMENT_STATE,
+  UNKNOWN_DIMENSION_VALUE,
+  TABLET_MIN_VIEWPORT_WIDTH,
+  DESKTOP_MIN_VIEWPORT_WIDTH,
+} from './constants';
+
+export const BREAKDOWN_DIMENSIONS: readonly BreakdownDimension[] = [
+  'device',
+  'browser',
+  'country',
+  'referrer',
+];
+
+export const PRESENCE_DIMENSIONS: readonly PresenceDimension[] = [
+  'page_path',
+  'page_type',
+  ...BREAKDOWN_DIMENSIONS,
+  'engagement',
+];
+
+// Shopify locale prefix'i (/en, /de-ch) sayfa tipini değiştirmez
+const LOCALE_PREFIX_PATTERN = /^\/[a-z]{2}(?:-[a-z]{2})?(?=\/|$)/i;
+
+const PAGE_TYPE_PATTERNS: Array<[RegExp, PageType]> = [
+  [/^\/?$/, 'home'],
+  [/^\/(?:collections\/[^/]+\/)?products\/[^/]+/, 'product'],
+  [/^\/collections(?:\/|$)/, 'collection'],
+  [/^\/cart(?:\/|$)/, 'cart'],
+  [/^\/checkouts?(?:\/|$)/, 'checkout'],
+  [/^\/search(?:\/|$)/, 'search'],
+  [/^\/account(?:\/|$)/, 'account'],
+  [/^\/blogs(?:\/|$)/, 'blog'],
+  [/^\/pages(?:\/|$)/, 'page'],
+];
+
+// ua-parser-js device.type → cihaz sınıfı (type yoksa desktop)
+const DEVICE_CLASSES: Record<string, DeviceClass> = {
+  mobile: 'mobile',
+  wearable: 'mobile',
+  tablet: 'tablet',
+  smarttv: 'other',
+  console: 'other',
+  embedded: 'other',
+};
+
+// Referrer host'u → kanal; e-posta host'ları arama motorlarından önce kontrol edilir (mail.google.com)
+const REFERRER_CHANNEL_PATTERNS: Array<[RegExp, ReferrerChannel]> = [
+  [/^(?:web)?mail\.|^outlook\.(?:live|office)\.com$/, 'email'],
+  [/(?:^|\.)(?:google|bing|yahoo|yandex|baidu|duckduckgo|ecosia|naver)\.[a-z.]+$/, 'search'],
+  [
+    /(?:^|\.)(?:facebook|fb|instagram|twitter|x|t|linkedin|lnkd|pinterest|reddit|tiktok|youtube|snapchat|whatsapp)\.[a-z.]+$/,
+    'social',
+  ],
+];
+
+/**
+ * Sayfa path'ini normalize eder (query, fragment ve sondaki / atılır)
+ * @param pagePath - Ham page_path
+ * @returns Normalize edilmiş path
+ */
+export function normalizePagePath(pagePath: string): string {
+  const path = pagePath.split(/[?#]/)[0] ?? '';
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Sayfa path'inden Shopify sayfa tipini çıkarır
+ * @param pagePath - Normalize edilmiş path
+ * @returns Sayfa tipi
+ */
+export function classifyPageType(pagePath: string): PageType {
+  const path = pagePath.replace(LOCALE_PREFIX_PATTERN, '').toLowerCase();
+
+  for (const [pattern, pageType] of PAGE_TYPE_PATTERNS) {
+    if (pattern.test(path)) {
+      return pageType;
+    }
+  }
+
+  return 'other';
+}
+
+/**
+ * User agent'tan cihaz sınıfını ve tarayıcıyı çıkarır. User agent yoksa
+ * cihaz sınıfı viewport genişliğinden tahmin edilir.
+ * @param userAgent - User agent
+ * @param viewport - Viewport boyutları
+ * @returns Cihaz sınıfı ve tarayıcı adı
+ */
+export function classifyUserAgent(
+  userAgent: string | undefined,
+  viewport?: { width: number; height: number }
+): { device: DeviceClass; browser: string } {
+  if (!userAgent) {
+    return { device: classifyViewport(viewport), browser: UNKNOWN_DIMENSION_VALUE };
+  }
+
+  const { device, browser } = new UAParser(userAgent).getResult();
+  const browserName = browser.name?.replace(/^Mobile /, '').replace(/ WebView$/, '');
+
+  return {
+    device: device.type ? (DEVICE_CLASSES[device.type] ?? 'other') : 'desktop',
+    browser: browserName || UNKNOWN_DIMENSION_VALUE,
+  };
+}
+
+/**
+ * Viewport genişliğinden cihaz sınıfını tahmin eder
+ * @param viewport - Viewport boyutları
+ * @returns Cihaz sınıfı
+ */
+function classifyViewport(viewport?: { width: number; height: number }): DeviceClass {
+  if (!viewport || viewport.width === 0) return 'unknown';
+  if (viewport.width < TABLET_MIN_VIEWPORT_WIDTH) return 'mobile';
+  if (viewport.width < DESKTOP_MIN_VIEWPORT_WIDTH) return 'tablet';
+  return 'desktop';
+}
+
+/**
+ * Referrer'ı trafik kanalına çevirir
+ * @param referrer - Session'ın giriş referrer'ı
+ * @param shop - Mağaza kimliği (kendi domain'inden gelen referrer'lar internal sayılır)
+ * @returns Trafik kanalı
+ */
+export function classifyReferrer(referrer: string | undefined, shop: string): ReferrerChannel {
+  if (!referrer) return 'direct';
+
+  let host: string;
+  try {
+    host = new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return 'direct';
+  }
+
+  if (!host) return 'direct';
+  if (host === shop.toLowerCase() || host.endsWith(`.${shop.toLowerCase()}`)) return 'internal';
+
+  for (const [pattern, channel] of REFERRER_CHANNEL_PATTERNS) {
+    if (pattern.test(host)) {
+      return channel;
+    }
+  }
+
+  return 'referral';
+}
+
+/**
+ * Heartbeat'in boyut değerlerini hesaplar
+ * @param presenceData - Presence verisi
+ * @returns Boyut → değer
+ */
+export function getDimensionValues(presenceData: PresenceData): Record<PresenceDimension, string> {
+  const pagePath = normalizePagePath(presenceData.page_path);
+  const { device, browser } = classifyUserAgent(presenceData.user_agent, presenceData.viewport);
+
+  return {
+    page_path: pagePath,
+    page_type: classifyPageType(pagePath),
+    device,
+    browser,
+    country: presenceData.country ?? UNKNOWN_DIMENSION_VALUE,
+    referrer: classifyReferrer(presenceData.referrer, presenceData.shop),
+    engagement: presenceData.state ?? DEFAULT_ENGAGEMENT_STATE,
+  };
+}
+
+/**
+ * Boyut script'lerinin key listesi: visitor boyut HASH'i + boyut sayaçları
+ * (PRESENCE_DIMENSIONS sırasıyla)
+ * @param shop - Mağaza kimliği
+ * @returns Redis key'leri
+ */
+export function getDimensionKeys(shop: string): string[] {
+  return [
+    `${REDIS_KEYS.PRESENCE_VISITOR_DIMENSIONS}:${shop}`,
+    ...PRESENCE_DIMENSIONS.map(dimension => getDimensionKey(shop, dimension)),
+  ];
+}
+
+/**
+ * Boyut sayacı key'i
+ * @param shop - Mağaza kimliği
+ * @param dimension - Boyut
+ * @returns Redis key'i
+ */
+export function getDimensionKey(shop: string, dimension: PresenceDimension): string {
+  return `${REDIS_KEYS.PRESENCE_DIMENSION}:${shop}:${dimension}`;
+}
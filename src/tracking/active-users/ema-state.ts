@@ -0,0 +1,231 @@
+/**
+ * EMA State Store
+ *
+ * Bu dosya shop başına EMA state'inin saklanmasını yönetir:
+ *
+ * - Sıcak kopya Redis'te (presence:ema:<shop>) EMA_STATE_TTL_MS ömrüyle tutulur.
+ * - Tick lideri state'leri periyodik olarak active_users_state tablosuna
+ *   checkpoint'ler.
+ * - Başlangıçta ve Redis'te state bulunamadığında checkpoint'ten geri
+ *   yüklenir; böylece restart veya Redis kaybı slow EMA'yı sıfırlamaz.
+ *   Aradaki boşluk updateEMAState tarafından decay edilir.
+ * - Checkpoint yöntemi ve history'yi de taşır; linear / adaptive shop'lar
+ *   restart sonrası örnek pencerelerini kaybetmez.
+ */
+
+import { DatabaseManager } from '../../database/database-manager';
+import { redis } from '../../utils/redis';
+import { isValidEMAState } from './ema';
+import { ActiveUsersStateRow, EMACalculationMethod, EMAState } from './types';
+import { REDIS_KEYS, EMA_STATE_TTL_MS } from './constants';
+
+export class EMAStateStore {
+  private dbManager: DatabaseManager | undefined;
+
+  /**
+   * @param dbManager - Verilirse state'ler active_users_state'e checkpoint'lenir
+   */
+  constructor(dbManager?: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Shop'un EMA state'ini getirir (Redis, yoksa checkpoint)
+   * @param shop - Mağaza kimliği
+   * @returns EMA state veya hiç state yoksa null
+   */
+  public async get(shop: string): Promise<EMAState | null> {
+    const cached = await this.getFromRedis(shop);
+    if (cached) return cached;
+
+    const restored = await this.getFromCheckpoint(shop);
+    if (restored) {
+      await this.set(shop, restored);
+    }
+    return restored;
+  }
+
+  /**
+   * Shop'un EMA state'ini Redis'e yazar
+   * @param shop - Mağaza kimliği
+   * @param emaState - EMA state
+   */
+  public async set(shop: string, emaState: EMAState): Promise<void> {
+    const key = `${REDIS_KEYS.EMA_STATE}:${shop}`;
+
+    try {
+      await redis
+        .getClient()
+        .multi()
+        .del(key) // Eski history/method alanları kalmasın
+        .hset(key, toRedisHash(emaState))
+        .pexpire(key, EMA_STATE_TTL_MS)
+        .exec();
+    } catch (error) {
+      console.error('Error setting EMA state:', error);
+    }
+  }
+
+  /**
+   * State'leri active_users_state tablosuna yazar
+   * @param states - Shop → EMA state
+   */
+  public async checkpoint(states: Map<string, EMAState>): Promise<void> {
+    if (!this.dbManager || states.size === 0) return;
+
+    const rows: ActiveUsersStateRow[] = [];
+    for (const [shop, state] of states) {
+      rows.push({
+        shop,
+        last_ts: new Date(state.last_ts).toISOString(),
+        ema_fast: state.ema_fast,
+        ema_slow: state.ema_slow,
+        last_au_raw: state.last_au_raw,
+        method: state.method ?? null,
+        history: state.history ?? null,
+      });
+    }
+
+    await this.dbManager.getPostgreSQL().upsertActiveUsersStates(rows);
+  }
+
+  /**
+   * Son EMA_STATE_TTL_MS içindeki checkpoint'leri Redis'e geri yükler.
+   * Redis'te zaten state'i olan shop'lara dokunulmaz.
+   * @returns Geri yüklenen state sayısı
+   */
+  public async restore(): Promise<number> {
+    if (!this.dbManager) return 0;
+
+    const since = new Date(Date.now() - EMA_STATE_TTL_MS);
+    const rows = await this.dbManager.getPostgreSQL().getActiveUsersStates(since);
+    const client = redis.getClient();
+    let restored = 0;
+
+    for (const row of rows) {
+      const state = fromStateRow(row);
+      if (!isValidEMAState(state)) continue;
+
+      const key = `${REDIS_KEYS.EMA_STATE}:${row.shop}`;
+      const hash = toRedisHash(state);
+      const pipeline = client.multi();
+
+      // HSETNX: başka bir instance'ın yazdığı daha yeni state ezilmez
+      for (const [field, value] of Object.entries(hash)) {
+        pipeline.hsetnx(key, field, value);
+      }
+      pipeline.pexpire(key, EMA_STATE_TTL_MS);
+
+      const results = await pipeline.exec();
+      if (results?.[0]?.[1] === 1) restored++;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Redis'teki state'i okur
+   * @param shop - Mağaza kimliği
+   * @returns Geçerli state veya null
+   */
+  private async getFromRedis(shop: string): Promise<EMAState | null> {
+    const key = `${REDIS_KEYS.EMA_STATE}:${shop}`;
+
+    try {
+      const data = await redis.getClient().hgetall(key);
+      if (!data || Object.keys(data).length === 0) return null;
+
+      const emaState: EMAState = {
+        ema_fast: parseFloat(String(data['ema_fast'] || '0')),
+        ema_slow: parseFloat(String(data['ema_slow'] || '0')),
+        last_ts: parseInt(String(data['last_ts'] || '0')),
+        last_au_raw: parseInt(String(data['last_au_raw'] || '0')),
+        method: parseMethod(data['method']),
+        history: parseHistory(data['history']),
+      };
+
+      if (!isValidEMAState(emaState)) {
+        console.warn(`Invalid EMA state in Redis for shop ${shop}, falling back to checkpoint`);
+        return null;
+      }
+
+      return emaState;
+    } catch (error) {
+      console.error('Error getting EMA state:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Checkpoint'teki state'i okur
+   * @param shop - Mağaza kimliği
+   * @returns Geçerli state veya null
+   */
+  private async getFromCheckpoint(shop: string): Promise<EMAState | null> {
+    if (!this.dbManager) return null;
+
+    try {
+      const row = await this.dbManager.getPostgreSQL().getActiveUsersState(shop);
+      if (!row) return null;
+
+      const state = fromStateRow(row);
+      return isValidEMAState(state) ? state : null;
+    } catch (error) {
+      console.error('Error loading EMA checkpoint:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * EMA state'ini Redis HASH alanlarına çevirir
+ */
+function toRedisHash(emaState: EMAState): Record<string, string> {
+  const hash: Record<string, string> = {
+    ema_fast: emaState.ema_fast.toString(),
+    ema_slow: emaState.ema_slow.toString(),
+    last_ts: emaState.last_ts.toString(),
+    last_au_raw: emaState.last_au_raw.toString(),
+  };
+
+  if (emaState.method) hash['method'] = emaState.method;
+  if (emaState.history) hash['history'] = JSON.stringify(emaState.history);
+
+  return hash;
+}
+
+/**
+ * Redis'teki yöntem alanını doğrular
+ */
+function parseMethod(raw: string | undefined): EMACalculationMethod | undefined {
+  return raw === 'exponential' || raw === 'linear' || raw === 'adaptive' ? raw : undefined;
+}
+
+/**
+ * History alanını parse eder: Redis'te JSON string, checkpoint'te JSONB
+ * (driver'a göre string veya dizi). Bozuksa yok sayılır.
+ */
+function parseHistory(raw: unknown): Array<[number, number]> | undefined {
+  if (!raw) return undefined;
+
+  try {
+    const history: unknown = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return Array.isArray(history) ? (history as Array<[number, number]>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * active_users_state satırını EMA state'ine çevirir
+ */
+function fromStateRow(row: ActiveUsersStateRow): EMAState {
+  return {
+    ema_fast: Number(row.ema_fast),
+    ema_slow: Number(row.ema_slow),
+    last_ts: new Date(row.last_ts).getTime(),
+    last_au_raw: Number(row.last_au_raw),
+    method: parseMethod(row.method ?? undefined),
+    history: parseHistory(row.history),
+  };
+}
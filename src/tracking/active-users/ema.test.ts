@@ -0,0 +1,159 @@
+import {
+  alpha,
+  calculateEMAResult,
+  createInitialEMAState,
+  isValidEMAState,
+  updateEMAState,
+} from './ema';
+import { EMAState, EMATaus } from './types';
+
+const T0 = 1_700_000_000_000;
+const TAUS: EMATaus = { fast: 10, slow: 60 };
+
+describe('alpha', () => {
+  it('is capped unless disabled', () => {
+    expect(alpha(10, 0.001)).toBeCloseTo(0.001, 6);
+    expect(alpha(10, 3600)).toBe(0.5);
+    expect(alpha(10, 3600, false)).toBeCloseTo(1, 6);
+  });
+
+  it('handles non-positive inputs', () => {
+    expect(alpha(10, 0)).toBe(0);
+    expect(alpha(0, 5)).toBe(1);
+  });
+});
+
+describe('updateEMAState', () => {
+  it('ignores samples that are not newer than the state', () => {
+    const state = createInitialEMAState(10, T0);
+
+    expect(updateEMAState(state, 50, T0)).toBe(state);
+    expect(updateEMAState(state, 50, T0 - 1)).toBe(state);
+  });
+
+  describe('exponential', () => {
+    it('moves towards the new value by the time-based alpha', () => {
+      const next = updateEMAState(
+        createInitialEMAState(0, T0),
+        100,
+        T0 + 5_000,
+        'exponential',
+        TAUS
+      );
+
+      expect(next.ema_fast).toBeCloseTo(100 * (1 - Math.exp(-0.5)), 6);
+      expect(next.ema_slow).toBeCloseTo(100 * (1 - Math.exp(-5 / 60)), 6);
+      expect(next).toMatchObject({ last_ts: T0 + 5_000, last_au_raw: 100, method: 'exponential' });
+      expect(next.history).toBeUndefined();
+    });
+
+    it('decays without the alpha cap after a long gap', () => {
+      const next = updateEMAState(
+        createInitialEMAState(0, T0),
+        100,
+        T0 + 3_600_000,
+        'exponential',
+        TAUS
+      );
+
+      expect(next.ema_fast).toBeCloseTo(100, 6);
+      expect(next.ema_slow).toBeCloseTo(100, 6);
+    });
+  });
+
+  describe('linear', () => {
+    it('weights samples linearly by age within the window', () => {
+      const first = updateEMAState(createInitialEMAState(0, T0), 100, T0 + 5_000, 'linear', TAUS);
+      const second = updateEMAState(first, 0, T0 + 10_000, 'linear', TAUS);
+
+      // Only history samples count: the initial state carries no history
+      expect(first.ema_fast).toBe(100);
+      expect(first.history).toEqual([[T0 + 5_000, 100]]);
+
+      // fast window 30s: weights 25/30 and 1; slow window 180s: weights 175/180 and 1
+      expect(second.ema_fast).toBeCloseTo(500 / 11, 6);
+      expect(second.ema_slow).toBeCloseTo(17_500 / 355, 6);
+      expect(second.method).toBe('linear');
+    });
+
+    it('trims history to the window but keeps the adaptive sample count', () => {
+      let state: EMAState = createInitialEMAState(0, T0);
+      for (let i = 1; i <= 60; i++) {
+        state = updateEMAState(state, i, T0 + i * 5_000, 'linear', TAUS);
+      }
+
+      const now = T0 + 60 * 5_000;
+      expect(state.history?.every(([ts]) => now - ts < 180_000)).toBe(true);
+      expect(state.history).toHaveLength(36);
+
+      const afterGap = updateEMAState(state, 1, now + 3_600_000, 'linear', TAUS);
+      expect(afterGap.history).toHaveLength(11);
+    });
+  });
+
+  describe('adaptive', () => {
+    const base: EMAState = { ...createInitialEMAState(0, T0), history: [[T0, 0]] };
+
+    it('reacts faster than exponential to a one-directional change', () => {
+      const adaptive = updateEMAState(base, 100, T0 + 5_000, 'adaptive', TAUS);
+      const exponential = updateEMAState(base, 100, T0 + 5_000, 'exponential', TAUS);
+
+      // Efficiency ratio 1: tau is shortened by EMA_ADAPTIVE_SPEEDUP
+      expect(adaptive.ema_fast).toBe(50);
+      expect(adaptive.ema_slow).toBeCloseTo(100 * (1 - Math.exp(-5 / 12)), 6);
+      expect(adaptive.ema_fast).toBeGreaterThan(exponential.ema_fast);
+    });
+
+    it('matches exponential when the net change is zero', () => {
+      const noisy: EMAState = {
+        ...base,
+        ema_fast: 10,
+        ema_slow: 10,
+        history: [
+          [T0 - 5_000, 10],
+          [T0, 20],
+        ],
+      };
+
+      const adaptive = updateEMAState(noisy, 10, T0 + 5_000, 'adaptive', TAUS);
+      const exponential = updateEMAState(noisy, 10, T0 + 5_000, 'exponential', TAUS);
+
+      expect(adaptive.ema_fast).toBeCloseTo(exponential.ema_fast, 6);
+      expect(adaptive.ema_slow).toBeCloseTo(exponential.ema_slow, 6);
+      expect(adaptive.history).toHaveLength(3);
+    });
+  });
+});
+
+describe('calculateEMAResult', () => {
+  it('reports trend and defaults the method to exponential', () => {
+    const result = calculateEMAResult({ ema_fast: 12, ema_slow: 8, last_ts: T0, last_au_raw: 12 });
+
+    expect(result).toEqual({
+      ema_fast: 12,
+      ema_slow: 8,
+      last_ts: T0,
+      trend: 'up',
+      trend_strength: 0.8,
+      method: 'exponential',
+    });
+  });
+
+  it('is stable when both values are zero', () => {
+    const result = calculateEMAResult({ ...createInitialEMAState(0, T0), method: 'linear' });
+
+    expect(result).toMatchObject({ trend: 'stable', trend_strength: 0, method: 'linear' });
+  });
+});
+
+describe('isValidEMAState', () => {
+  it('rejects negative, NaN and infinite values', () => {
+    const state = createInitialEMAState(5, T0);
+
+    expect(isValidEMAState(state)).toBe(true);
+    expect(isValidEMAState({ ...state, ema_fast: -1 })).toBe(false);
+    expect(isValidEMAState({ ...state, ema_slow: NaN })).toBe(false);
+    expect(isValidEMAState({ ...state, ema_fast: Infinity })).toBe(false);
+    expect(isValidEMAState({ ...state, last_ts: 0 })).toBe(false);
+  });
+});
@@ -4,22 +4,66 @@
  * Bu dosya Active Users tracking için EMA algoritmasını implement eder.
  * Aggregate-EMA yaklaşımı kullanarak anlık aktif kullanıcı sayısını
  * smooth bir şekilde hesaplar ve trend analizi yapar.
+ *
+ * Smoothing yöntemi EMAStrategy ile seçilir (shop başına):
+ * - exponential: Sürekli zamanlı EMA (varsayılan)
+ * - linear: Linear-weighted moving average (tau * EMA_LINEAR_WINDOW_FACTOR penceresi)
+ * - adaptive: KAMA tarzı; efficiency ratio yükseldikçe (hızlı, tek yönlü
+ *   değişim) alpha büyür, gürültüde exponential gibi davranır
  */
 
-import { EMAResult, EMAState, TrendDirection } from './types';
-import { EMA_TAU_FAST, EMA_TAU_SLOW, EMA_MIN_ALPHA, EMA_MAX_ALPHA } from './constants';
+import { EMACalculationMethod, EMAResult, EMAState, EMATaus, TrendDirection } from './types';
+import {
+  EMA_TAU_FAST,
+  EMA_TAU_SLOW,
+  EMA_MIN_ALPHA,
+  EMA_MAX_ALPHA,
+  EMA_GAP_THRESHOLD_MS,
+  EMA_LINEAR_WINDOW_FACTOR,
+  EMA_ADAPTIVE_WINDOW,
+  EMA_ADAPTIVE_SPEEDUP,
+} from './constants';
+
+/**
+ * Varsayılan EMA time constant'ları
+ */
+export const DEFAULT_EMA_TAUS: EMATaus = { fast: EMA_TAU_FAST, slow: EMA_TAU_SLOW };
+
+/**
+ * Smoothing yöntemi
+ */
+export interface EMAStrategy {
+  readonly method: EMACalculationMethod;
+  /**
+   * Yeni örnekle fast/slow değerlerini hesaplar
+   * @param state - Mevcut state (history önceki örnekleri içerir)
+   * @param auRaw - Yeni aktif kullanıcı sayısı
+   * @param timestamp - Yeni timestamp (ms)
+   * @param taus - Time constant'lar
+   * @returns Yeni fast/slow değerleri
+   */
+  step(
+    state: EMAState,
+    auRaw: number,
+    timestamp: number,
+    taus: EMATaus
+  ): { ema_fast: number; ema_slow: number };
+}
 
 /**
  * Alpha değerini hesaplar (sürekli zaman katsayısı)
  * @param tau - Time constant (saniye)
  * @param dt - Time delta (saniye)
+ * @param capped - false ise EMA_MIN_ALPHA / EMA_MAX_ALPHA sınırları uygulanmaz
  * @returns Alpha değeri (0-1 arası)
  */
-export function alpha(tau: number, dt: number): number {
+export function alpha(tau: number, dt: number, capped: boolean = true): number {
   if (dt <= 0) return 0;
   if (tau <= 0) return 1;
   
   const rawAlpha = 1 - Math.exp(-dt / tau);
+  if (!capped) return rawAlpha;
+
   return Math.max(EMA_MIN_ALPHA, Math.min(EMA_MAX_ALPHA, rawAlpha));
 }
 
@@ -66,17 +110,99 @@ export function calculateTrend(ema_fast: number, ema_slow: number): {
   }
 }
 
+/**
+ * Exponential strateji (sürekli zamanlı EMA)
+ */
+const exponentialStrategy: EMAStrategy = {
+  method: 'exponential',
+  step(state, auRaw, timestamp, taus) {
+    const dt = (timestamp - state.last_ts) / 1000;
+
+    // Uzun boşluklarda (restart, pause) alpha sınırlanmaz; state sıfırlanmak
+    // yerine boşluğun süresi kadar üstel olarak yeni değere yaklaşır
+    const capped = dt * 1000 <= EMA_GAP_THRESHOLD_MS;
+
+    return {
+      ema_fast: emaStep(state.ema_fast, auRaw, alpha(taus.fast, dt, capped)),
+      ema_slow: emaStep(state.ema_slow, auRaw, alpha(taus.slow, dt, capped)),
+    };
+  },
+};
+
+/**
+ * Linear-weighted moving average stratejisi.
+ * Pencere içindeki örneklerin ağırlığı yaşla doğrusal azalır.
+ */
+const linearStrategy: EMAStrategy = {
+  method: 'linear',
+  step(state, auRaw, timestamp, taus) {
+    const samples: Array<[number, number]> = [...(state.history ?? []), [timestamp, auRaw]];
+
+    return {
+      ema_fast: linearWeightedAverage(samples, timestamp, taus.fast * EMA_LINEAR_WINDOW_FACTOR * 1000),
+      ema_slow: linearWeightedAverage(samples, timestamp, taus.slow * EMA_LINEAR_WINDOW_FACTOR * 1000),
+    };
+  },
+};
+
+/**
+ * Adaptive (KAMA tarzı) strateji.
+ * Efficiency ratio = |net değişim| / toplam değişim; 1'e yaklaştıkça tau
+ * EMA_ADAPTIVE_SPEEDUP oranına kadar kısalır.
+ */
+const adaptiveStrategy: EMAStrategy = {
+  method: 'adaptive',
+  step(state, auRaw, timestamp, taus) {
+    const dt = (timestamp - state.last_ts) / 1000;
+    const capped = dt * 1000 <= EMA_GAP_THRESHOLD_MS;
+    const values = [...(state.history ?? []).map(([, value]) => value), auRaw].slice(
+      -(EMA_ADAPTIVE_WINDOW + 1)
+    );
+    const er = efficiencyRatio(values);
+
+    const adaptiveAlpha = (tau: number): number => {
+      const base = alpha(tau, dt, capped);
+      const fastest = alpha(tau / EMA_ADAPTIVE_SPEEDUP, dt, capped);
+      return base + er * (fastest - base);
+    };
+
+    return {
+      ema_fast: emaStep(state.ema_fast, auRaw, adaptiveAlpha(taus.fast)),
+      ema_slow: emaStep(state.ema_slow, auRaw, adaptiveAlpha(taus.slow)),
+    };
+  },
+};
+
+const EMA_STRATEGIES: Record<EMACalculationMethod, EMAStrategy> = {
+  exponential: exponentialStrategy,
+  linear: linearStrategy,
+  adaptive: adaptiveStrategy,
+};
+
+/**
+ * Yönteme ait stratejiyi getirir
+ * @param method - Smoothing yöntemi
+ * @returns Strateji
+ */
+export function getEMAStrategy(method: EMACalculationMethod): EMAStrategy {
+  return EMA_STRATEGIES[method];
+}
+
 /**
  * EMA state'ini günceller
  * @param currentState - Mevcut EMA state
  * @param newAuRaw - Yeni aktif kullanıcı sayısı
  * @param timestamp - Yeni timestamp
+ * @param method - Smoothing yöntemi
+ * @param taus - Time constant'lar
  * @returns Güncellenmiş EMA state
  */
 export function updateEMAState(
   currentState: EMAState,
   newAuRaw: number,
-  timestamp: number
+  timestamp: number,
+  method: EMACalculationMethod = 'exponential',
+  taus: EMATaus = DEFAULT_EMA_TAUS
 ): EMAState {
   const dt = (timestamp - currentState.last_ts) / 1000; // saniye cinsinden
   
@@ -84,20 +210,80 @@ export function updateEMAState(
     return currentState; // Geçersiz zaman delta
   }
   
-  const alphaFast = alpha(EMA_TAU_FAST, dt);
-  const alphaSlow = alpha(EMA_TAU_SLOW, dt);
-  
-  const newEmaFast = emaStep(currentState.ema_fast, newAuRaw, alphaFast);
-  const newEmaSlow = emaStep(currentState.ema_slow, newAuRaw, alphaSlow);
+  const { ema_fast, ema_slow } = getEMAStrategy(method).step(currentState, newAuRaw, timestamp, taus);
   
   return {
-    ema_fast: newEmaFast,
-    ema_slow: newEmaSlow,
+    ema_fast,
+    ema_slow,
     last_ts: timestamp,
     last_au_raw: newAuRaw,
+    method,
+    // Exponential yöntem geçmiş örneklere ihtiyaç duymaz
+    history:
+      method === 'exponential'
+        ? undefined
+        : trimHistory([...(currentState.history ?? []), [timestamp, newAuRaw]], timestamp, taus),
   };
 }
 
+/**
+ * Pencere içindeki örneklerin linear-weighted ortalamasını hesaplar
+ * @param samples - [timestamp, değer] örnekleri
+ * @param now - Şu anki zaman (ms)
+ * @param windowMs - Pencere (ms)
+ * @returns Ortalama
+ */
+function linearWeightedAverage(samples: Array<[number, number]>, now: number, windowMs: number): number {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const [ts, value] of samples) {
+    const weight = (windowMs - (now - ts)) / windowMs;
+    if (weight <= 0) continue;
+    weighted += weight * value;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weighted / totalWeight : (samples[samples.length - 1]?.[1] ?? 0);
+}
+
+/**
+ * Efficiency ratio (0-1): net değişimin toplam değişime oranı
+ * @param values - Sıralı örnekler
+ * @returns Efficiency ratio
+ */
+function efficiencyRatio(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  let volatility = 0;
+  for (let i = 1; i < values.length; i++) {
+    volatility += Math.abs((values[i] as number) - (values[i - 1] as number));
+  }
+  if (volatility === 0) return 0;
+
+  const change = Math.abs((values[values.length - 1] as number) - (values[0] as number));
+  return change / volatility;
+}
+
+/**
+ * History'yi stratejilerin ihtiyaç duyduğu pencereye kırpar
+ * @param history - [timestamp, değer] örnekleri
+ * @param now - Şu anki zaman (ms)
+ * @param taus - Time constant'lar
+ * @returns Kırpılmış history
+ */
+function trimHistory(
+  history: Array<[number, number]>,
+  now: number,
+  taus: EMATaus
+): Array<[number, number]> {
+  const windowMs = Math.max(taus.fast, taus.slow) * EMA_LINEAR_WINDOW_FACTOR * 1000;
+  const recent = history.filter(([ts]) => now - ts < windowMs);
+
+  // Adaptive için pencereden bağımsız olarak son örnekler korunur
+  return recent.length > EMA_ADAPTIVE_WINDOW ? recent : history.slice(-(EMA_ADAPTIVE_WINDOW + 1));
+}
+
 /**
  * EMA sonucunu hesaplar (trend analizi ile)
  * @param emaState - EMA state
@@ -112,6 +298,7 @@ export function calculateEMAResult(emaState: EMAState): EMAResult {
     last_ts: emaState.last_ts,
     trend: trend.direction,
     trend_strength: trend.strength,
+    method: emaState.method ?? 'exponential',
   };
 }
 
@@ -0,0 +1,123 @@
+/**
+ * Active Users Errors
+ *
+ * Bu dosya API katmanına 400 olarak dönen doğrulama hatalarını ve
+ * geçersiz ActiveUsersConfig için fırlatılan hatayı içerir.
+ * Hata kodları ACTIVE_USERS_ERROR_CODES'tan gelir ve client'lar tarafından
+ * güvenle kullanılabilir.
+ */
+
+import { z, ZodError, ZodTypeAny } from 'zod';
+import { ActiveUsersError } from './types';
+import { ACTIVE_USERS_ERROR_CODES } from './constants';
+
+export type ActiveUsersErrorCode =
+  (typeof ACTIVE_USERS_ERROR_CODES)[keyof typeof ACTIVE_USERS_ERROR_CODES];
+
+/**
+ * Payload alanı → hata kodu eşlemesi
+ */
+const FIELD_ERROR_CODES: Record<string, ActiveUsersErrorCode> = {
+  shop: ACTIVE_USERS_ERROR_CODES.INVALID_SHOP,
+  visitor_id: ACTIVE_USERS_ERROR_CODES.INVALID_VISITOR_ID,
+  session_id: ACTIVE_USERS_ERROR_CODES.INVALID_SESSION_ID,
+  tab_id: ACTIVE_USERS_ERROR_CODES.INVALID_TAB_ID,
+  page_path: ACTIVE_USERS_ERROR_CODES.INVALID_PAGE_PATH,
+  timestamp: ACTIVE_USERS_ERROR_CODES.INVALID_TIMESTAMP,
+  user_agent: ACTIVE_USERS_ERROR_CODES.INVALID_USER_AGENT,
+  referrer: ACTIVE_USERS_ERROR_CODES.INVALID_REFERRER,
+  state: ACTIVE_USERS_ERROR_CODES.INVALID_STATE,
+  from: ACTIVE_USERS_ERROR_CODES.INVALID_HISTORY_RANGE,
+  to: ACTIVE_USERS_ERROR_CODES.INVALID_HISTORY_RANGE,
+  granularity: ACTIVE_USERS_ERROR_CODES.INVALID_HISTORY_RANGE,
+  viewport: ACTIVE_USERS_ERROR_CODES.INVALID_DIMENSIONS,
+  screen: ACTIVE_USERS_ERROR_CODES.INVALID_DIMENSIONS,
+};
+
+/**
+ * Doğrulama hatası; ActiveUsersError taşır
+ */
+export class ActiveUsersValidationError extends Error {
+  public readonly error: ActiveUsersError;
+
+  constructor(error: ActiveUsersError) {
+    super(error.message);
+    this.name = 'ActiveUsersValidationError';
+    this.error = error;
+  }
+}
+
+/**
+ * Geçersiz ActiveUsersConfig hatası (başlangıçta fırlatılır)
+ */
+export class ActiveUsersConfigError extends Error {
+  public readonly issues: Array<{ path: string; message: string }>;
+
+  constructor(zodError: ZodError) {
+    const issues = zodError.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    super(`Invalid active users config: ${issues.map(i => `${i.path}: ${i.message}`).join(', ')}`);
+    this.name = 'ActiveUsersConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * ActiveUsersError oluşturur
+ * @param code - Hata kodu
+ * @param message - Açıklama
+ * @param details - Ek detaylar
+ * @returns ActiveUsersError
+ */
+export function createActiveUsersError(
+  code: ActiveUsersErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): ActiveUsersError {
+  return {
+    code,
+    message,
+    ...(details ? { details } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * ZodError'ı ActiveUsersError'a çevirir (ilk hatalı alanın kodu kullanılır)
+ * @param zodError - Zod hatası
+ * @returns ActiveUsersError
+ */
+export function fromZodError(zodError: ZodError): ActiveUsersError {
+  const [firstIssue] = zodError.issues;
+  const field = firstIssue ? String(firstIssue.path[0] ?? '') : '';
+  const code = FIELD_ERROR_CODES[field] ?? ACTIVE_USERS_ERROR_CODES.INVALID_PAYLOAD;
+
+  return createActiveUsersError(
+    code,
+    firstIssue ? `${field || 'payload'}: ${firstIssue.message}` : 'Invalid payload',
+    {
+      issues: zodError.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    }
+  );
+}
+
+/**
+ * Payload'ı şemaya göre doğrular, hatalıysa ActiveUsersValidationError fırlatır
+ * @param schema - Zod şeması
+ * @param payload - Ham payload
+ * @returns Doğrulanmış payload
+ */
+export function parsePayload<S extends ZodTypeAny>(schema: S, payload: unknown): z.infer<S> {
+  const result = schema.safeParse(payload);
+
+  if (!result.success) {
+    throw new ActiveUsersValidationError(fromZodError(result.error));
+  }
+
+  return result.data;
+}
@@ -0,0 +1,215 @@
+/**
+ * Presence Event Bus
+ *
+ * Bu dosya presence geçişlerinin (visitor_online, visitor_offline,
+ * session_start, session_end) dağıtımını yönetir. Geçişler PresenceTracker'da
+ * Lua script'lerinin dönüşlerinden tespit edilir, yani her geçiş hangi
+ * instance'ta olursa olsun tam bir kez üretilir. Her event:
+ *
+ * - bu instance'taki dinleyicilere senkron iletilir,
+ * - enable_redis_pubsub açıksa channel:presence:<shop> kanalına publish
+ *   edilir (live stream bu kanaldan beslenir),
+ * - database verildiyse OLAP events tablosuna presence_<type> olarak yazılır.
+ *
+ * visitor_offline ve session_end event'leri started_at, last_seen ve
+ * duration_ms taşır; session süreleri bu event'lerden hesaplanabilir.
+ * OLAP yazımı batch'lenir: event'ler bellekte biriktirilir ve periyodik
+ * olarak veya batch_size dolduğunda yazılır; başarısız batch'ler sonraki
+ * flush'ta tekrar denenir.
+ */
+
+import { DatabaseManager } from '../../database/database-manager';
+import { EventData } from '../../types';
+import { redis } from '../../utils/redis';
+import { ActiveUsersConfig, PresenceEvent, PresenceEventListener } from './types';
+import {
+  REDIS_KEYS,
+  PRESENCE_EVENT_TYPE_PREFIX,
+  PRESENCE_EVENT_FLUSH_INTERVAL_MS,
+  PRESENCE_EVENT_BUFFER_MAX,
+} from './constants';
+
+export class PresenceEventBus {
+  private config: ActiveUsersConfig;
+  private dbManager: DatabaseManager | undefined;
+  private listeners: Set<PresenceEventListener> = new Set();
+  private pending: PresenceEvent[] = [];
+  private flushing: Promise<number> | undefined;
+  private flushInterval: NodeJS.Timeout | undefined;
+
+  /**
+   * @param config - Active users konfigürasyonu (pubsub, batch size)
+   * @param dbManager - Verilirse event'ler OLAP events tablosuna yazılır
+   */
+  constructor(config: ActiveUsersConfig, dbManager?: DatabaseManager) {
+    this.config = config;
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Periyodik OLAP flush'ını başlatır
+   */
+  public start(): void {
+    if (this.flushInterval || !this.dbManager) return;
+
+    this.flushInterval = setInterval(() => void this.flush(), PRESENCE_EVENT_FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Periyodik flush'ı durdurur ve bekleyen event'leri yazar
+   */
+  public async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Bu instance'taki presence event'lerini dinler
+   * @param listener - Her event'te çağrılır
+   * @returns Dinlemeyi sonlandıran fonksiyon
+   */
+  public subscribe(listener: PresenceEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Event'i dinleyicilere, Redis'e ve OLAP kuyruğuna iletir
+   * @param event - Presence event
+   */
+  public async emit(event: PresenceEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in presence event listener:', error);
+      }
+    }
+
+    if (this.dbManager) {
+      this.enqueue(event);
+    }
+
+    if (!this.config.enable_redis_pubsub) return;
+
+    try {
+      await redis.publish(`${REDIS_KEYS.PUBSUB_CHANNEL}:${event.shop}`, event);
+    } catch (error) {
+      console.error('Error publishing presence event:', error);
+    }
+  }
+
+  /**
+   * Bekleyen event'leri OLAP events tablosuna yazar. Eşzamanlı çağrılar
+   * devam eden flush'ı bekler.
+   * @returns Yazılan event sayısı
+   */
+  public async flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.writePending().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return await this.flushing;
+  }
+
+  /**
+   * Yazılmayı bekleyen event sayısını getirir
+   * @returns Bekleyen event sayısı
+   */
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Event'i OLAP kuyruğuna ekler; batch dolduysa flush'ı tetikler
+   * @param event - Presence event
+   */
+  private enqueue(event: PresenceEvent): void {
+    this.pending.push(event);
+    this.trimPending();
+
+    if (this.pending.length >= this.config.batch_size) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Kuyruktaki event'leri batch_size'lık parçalar halinde yazar.
+   * Batch yazım beklenirken kuyruktan ayrılır; böylece bu sırada enqueue'nun
+   * taşma nedeniyle kuyruğun başından sildiği event'ler batch'i etkilemez.
+   * Başarısız batch kuyruğun başına geri konur.
+   * @returns Yazılan event sayısı
+   */
+  private async writePending(): Promise<number> {
+    if (!this.dbManager) return 0;
+
+    let written = 0;
+
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.config.batch_size);
+
+      try {
+        await this.dbManager.getClickHouse().createEvents(batch.map(toEventData));
+      } catch (error) {
+        console.error('Error writing presence events:', error);
+        this.requeue(batch);
+        break;
+      }
+
+      written += batch.length;
+    }
+
+    return written;
+  }
+
+  /**
+   * Yazılamayan batch'i kuyruğun başına geri koyar; buffer sınırı aşılırsa
+   * en eski event'ler atılır
+   * @param batch - Yazılamayan event'ler
+   */
+  private requeue(batch: PresenceEvent[]): void {
+    this.pending.unshift(...batch);
+    this.trimPending();
+  }
+
+  /**
+   * Database uzun süre erişilemezse bellek sınırsız büyümesin diye
+   * PRESENCE_EVENT_BUFFER_MAX'ı aşan en eski event'leri atar
+   */
+  private trimPending(): void {
+    if (this.pending.length <= PRESENCE_EVENT_BUFFER_MAX) return;
+
+    const dropped = this.pending.length - PRESENCE_EVENT_BUFFER_MAX;
+    this.pending.splice(0, dropped);
+    console.warn(`Presence event buffer full, dropped ${dropped} oldest events`);
+  }
+}
+
+/**
+ * Presence event'ini OLAP event satırına çevirir
+ * @param event - Presence event
+ * @returns Event satırı
+ */
+function toEventData(event: PresenceEvent): EventData {
+  const row: EventData = {
+    shop_id: event.shop,
+    user_id: event.visitor_id,
+    session_id: event.session_id ?? '',
+    event_type: `${PRESENCE_EVENT_TYPE_PREFIX}${event.type}`,
+    event_data: event.data,
+    timestamp: new Date(event.timestamp),
+  };
+
+  if (event.data.page_path) {
+    row.page_url = event.data.page_path;
+  }
+
+  return row;
+}
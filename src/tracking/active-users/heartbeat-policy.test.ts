@@ -0,0 +1,163 @@
+import {
+  calculateHeartbeatSchedule,
+  getShopSizeMultiplier,
+  HeartbeatLoadMonitor,
+} from './heartbeat-policy';
+import {
+  HEARTBEAT_LOAD_TARGET_RPS,
+  HEARTBEAT_LOAD_WINDOW_MS,
+  HEARTBEAT_MAX_LOAD_MULTIPLIER,
+  MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS,
+  MAX_PRESENCE_TTL_MS,
+  MIN_HEARTBEAT_INTERVAL_MS,
+} from './constants';
+import { HeartbeatIntervalFactors } from './types';
+
+const BASE_INTERVAL = 10_000;
+const SHOP_TTL = 30_000;
+const NO_JITTER = () => 0.5;
+
+const factors = (overrides: Partial<HeartbeatIntervalFactors> = {}): HeartbeatIntervalFactors => ({
+  state: 'active',
+  shop_visitors: 1,
+  plan_multiplier: 1,
+  load_multiplier: 1,
+  ...overrides,
+});
+
+describe('getShopSizeMultiplier', () => {
+  it.each([
+    [0, 1],
+    [999, 1],
+    [1_000, 1.5],
+    [9_999, 1.5],
+    [10_000, 2],
+  ])('%d visitors → %d', (visitors, multiplier) => {
+    expect(getShopSizeMultiplier(visitors)).toBe(multiplier);
+  });
+});
+
+describe('calculateHeartbeatSchedule', () => {
+  it('keeps the shop interval and TTL without multipliers or jitter', () => {
+    expect(calculateHeartbeatSchedule(BASE_INTERVAL, SHOP_TTL, factors(), NO_JITTER)).toEqual({
+      next_heartbeat_in: BASE_INTERVAL,
+      presence_ttl_ms: SHOP_TTL,
+    });
+  });
+
+  it('combines state, shop size, plan and load multipliers', () => {
+    const schedule = calculateHeartbeatSchedule(
+      BASE_INTERVAL,
+      SHOP_TTL,
+      factors({ state: 'idle', shop_visitors: 1_000, plan_multiplier: 2 }),
+      NO_JITTER
+    );
+
+    expect(schedule).toEqual({ next_heartbeat_in: 60_000, presence_ttl_ms: 180_000 });
+  });
+
+  it('applies up to ±20% jitter', () => {
+    const up = calculateHeartbeatSchedule(BASE_INTERVAL, SHOP_TTL, factors(), () => 1);
+    const down = calculateHeartbeatSchedule(BASE_INTERVAL, SHOP_TTL, factors(), () => 0);
+
+    expect(up.next_heartbeat_in).toBe(12_000);
+    expect(down.next_heartbeat_in).toBe(8_000);
+  });
+
+  it('clamps the interval to the adaptive maximum', () => {
+    const schedule = calculateHeartbeatSchedule(
+      BASE_INTERVAL,
+      SHOP_TTL,
+      factors({ state: 'hidden', shop_visitors: 10_000, plan_multiplier: 2, load_multiplier: 3 }),
+      () => 1
+    );
+
+    expect(schedule.next_heartbeat_in).toBe(MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS);
+  });
+
+  it('clamps the interval to the minimum', () => {
+    const schedule = calculateHeartbeatSchedule(1_000, 5_000, factors(), () => 0);
+
+    expect(schedule.next_heartbeat_in).toBe(MIN_HEARTBEAT_INTERVAL_MS);
+  });
+
+  it('scales the TTL with the interval, keeping the shop TTL / interval ratio', () => {
+    for (const random of [() => 0.75, () => 1]) {
+      const schedule = calculateHeartbeatSchedule(
+        BASE_INTERVAL,
+        SHOP_TTL,
+        factors({ state: 'hidden' }),
+        random
+      );
+
+      expect(schedule.presence_ttl_ms).toBe(
+        Math.ceil((schedule.next_heartbeat_in * SHOP_TTL) / BASE_INTERVAL)
+      );
+    }
+  });
+
+  it('never lets the TTL drop below the shop TTL', () => {
+    const schedule = calculateHeartbeatSchedule(BASE_INTERVAL, SHOP_TTL, factors(), () => 0);
+
+    expect(schedule.next_heartbeat_in).toBeLessThan(BASE_INTERVAL);
+    expect(schedule.presence_ttl_ms).toBe(SHOP_TTL);
+  });
+
+  it('caps the TTL at MAX_PRESENCE_TTL_MS', () => {
+    const schedule = calculateHeartbeatSchedule(
+      BASE_INTERVAL,
+      5 * 60_000,
+      factors({ state: 'hidden', plan_multiplier: 2 }),
+      NO_JITTER
+    );
+
+    expect(schedule.next_heartbeat_in).toBe(80_000);
+    expect(schedule.presence_ttl_ms).toBe(MAX_PRESENCE_TTL_MS);
+  });
+});
+
+describe('HeartbeatLoadMonitor', () => {
+  const T0 = 1_700_000_000_000;
+  const windowSeconds = HEARTBEAT_LOAD_WINDOW_MS / 1000;
+
+  const recordMany = (monitor: HeartbeatLoadMonitor, count: number, now: number) => {
+    for (let i = 0; i < count; i++) monitor.record(now);
+  };
+
+  it('reports beats per second over the window', () => {
+    const monitor = new HeartbeatLoadMonitor();
+    recordMany(monitor, 50, T0);
+
+    expect(monitor.getRate(T0)).toBe(50 / windowSeconds);
+  });
+
+  it('drops seconds that slide out of the window', () => {
+    const monitor = new HeartbeatLoadMonitor();
+    recordMany(monitor, 100, T0);
+    recordMany(monitor, 100, T0 + 5_000);
+
+    expect(monitor.getRate(T0 + HEARTBEAT_LOAD_WINDOW_MS - 1)).toBe(200 / windowSeconds);
+    expect(monitor.getRate(T0 + HEARTBEAT_LOAD_WINDOW_MS)).toBe(100 / windowSeconds);
+    expect(monitor.getRate(T0 + 5_000 + HEARTBEAT_LOAD_WINDOW_MS)).toBe(0);
+  });
+
+  it('resets after a gap longer than the window', () => {
+    const monitor = new HeartbeatLoadMonitor();
+    recordMany(monitor, 100, T0);
+    monitor.record(T0 + 60_000);
+
+    expect(monitor.getRate(T0 + 60_000)).toBe(1 / windowSeconds);
+    expect(monitor.getTotalProcessed()).toBe(101);
+  });
+
+  it('scales the load multiplier with pressure up to the maximum', () => {
+    const monitor = new HeartbeatLoadMonitor();
+    expect(monitor.getLoadMultiplier(T0)).toBe(1);
+
+    recordMany(monitor, HEARTBEAT_LOAD_TARGET_RPS * windowSeconds * 2, T0);
+    expect(monitor.getLoadMultiplier(T0)).toBe(2);
+
+    recordMany(monitor, HEARTBEAT_LOAD_TARGET_RPS * windowSeconds * 2, T0);
+    expect(monitor.getLoadMultiplier(T0)).toBe(HEARTBEAT_MAX_LOAD_MULTIPLIER);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Adaptive Heartbeat Policy
+ *
+ * Bu dosya client'a döndürülen next_heartbeat_in değerini ve bu beat'in
+ * presence TTL'ini hesaplar. Interval shop'un heartbeat_interval_ms'inden
+ * başlar ve şu çarpanlarla uzatılır:
+ *
+ * - sekme durumu: idle ve hidden sekmeler daha seyrek beat gönderir
+ * - shop boyutu: çok visitor'ı olan shop'larda hassasiyet daha az önemlidir
+ * - plan: realtime özelliği olmayan planlar daha seyrek beat gönderir
+ * - yük: instance'ın beat/saniye oranı hedefi aşarsa herkes yavaşlatılır
+ *
+ * Interval uzadıkça presence TTL'i de aynı oranda uzatılır (shop'un
+ * TTL / interval toleransı korunur); böylece seyrek beat gönderen
+ * visitor'lar sweep'te yanlışlıkla offline olmaz.
+ */
+
+import { HeartbeatIntervalFactors, HeartbeatSchedule } from './types';
+import {
+  DEFAULT_ENGAGEMENT_STATE,
+  HEARTBEAT_STATE_MULTIPLIERS,
+  HEARTBEAT_SHOP_SIZE_TIERS,
+  HEARTBEAT_LOAD_WINDOW_MS,
+  HEARTBEAT_LOAD_TARGET_RPS,
+  HEARTBEAT_MAX_LOAD_MULTIPLIER,
+  HEARTBEAT_JITTER_RATIO,
+  MIN_HEARTBEAT_INTERVAL_MS,
+  MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS,
+  MAX_PRESENCE_TTL_MS,
+} from './constants';
+
+/**
+ * Shop boyutu çarpanını getirir
+ * @param shopVisitors - Shop'un online visitor sayısı
+ * @returns Çarpan (küçük shop'larda 1)
+ */
+export function getShopSizeMultiplier(shopVisitors: number): number {
+  const tier = HEARTBEAT_SHOP_SIZE_TIERS.find(({ min_visitors }) => shopVisitors >= min_visitors);
+  return tier?.multiplier ?? 1;
+}
+
+/**
+ * Sonraki heartbeat interval'ını ve presence TTL'ini hesaplar
+ * @param baseInterval - Shop'un heartbeat interval'ı (ms)
+ * @param ttlMs - Shop'un presence TTL'i (ms)
+ * @param factors - Sekme durumu, shop boyutu, plan ve yük
+ * @param random - 0-1 arası rastgele sayı üreticisi (jitter)
+ * @returns Interval ve presence TTL'i
+ */
+export function calculateHeartbeatSchedule(
+  baseInterval: number,
+  ttlMs: number,
+  factors: HeartbeatIntervalFactors,
+  random: () => number = Math.random
+): HeartbeatSchedule {
+  const multiplier =
+    HEARTBEAT_STATE_MULTIPLIERS[factors.state ?? DEFAULT_ENGAGEMENT_STATE] *
+    getShopSizeMultiplier(factors.shop_visitors) *
+    factors.plan_multiplier *
+    factors.load_multiplier;
+
+  // Jitter ekle (±20% random)
+  const jitter = (random() - 0.5) * 2 * HEARTBEAT_JITTER_RATIO;
+  const interval = Math.round(
+    Math.max(
+      MIN_HEARTBEAT_INTERVAL_MS,
+      Math.min(MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS, baseInterval * multiplier * (1 + jitter))
+    )
+  );
+
+  // TTL interval ile aynı oranda uzar, shop TTL'inin altına inmez
+  const presenceTtl = Math.min(
+    MAX_PRESENCE_TTL_MS,
+    Math.max(ttlMs, Math.ceil((interval * ttlMs) / baseInterval))
+  );
+
+  return { next_heartbeat_in: interval, presence_ttl_ms: presenceTtl };
+}
+
+export class HeartbeatLoadMonitor {
+  private window: number[] = []; // Saniye başına beat sayıları, en eskisi başta
+  private windowStart = 0; // window[0]'ın saniyesi
+  private totalProcessed = 0;
+
+  /**
+   * Bir heartbeat'i sayar
+   * @param now - Zaman (ms)
+   */
+  public record(now: number = Date.now()): void {
+    this.advance(now);
+    const last = this.window.length - 1;
+    this.window[last] = (this.window[last] ?? 0) + 1;
+    this.totalProcessed++;
+  }
+
+  /**
+   * Son HEARTBEAT_LOAD_WINDOW_MS içindeki beat/saniye oranını getirir
+   * @param now - Zaman (ms)
+   * @returns Beat/saniye
+   */
+  public getRate(now: number = Date.now()): number {
+    this.advance(now);
+    const total = this.window.reduce((sum, count) => sum + count, 0);
+    return total / (HEARTBEAT_LOAD_WINDOW_MS / 1000);
+  }
+
+  /**
+   * Yük çarpanını getirir: oran hedefin altındayken 1, üstünde orantılı
+   * olarak artar (en fazla HEARTBEAT_MAX_LOAD_MULTIPLIER)
+   * @param now - Zaman (ms)
+   * @returns Yük çarpanı
+   */
+  public getLoadMultiplier(now: number = Date.now()): number {
+    const pressure = this.getRate(now) / HEARTBEAT_LOAD_TARGET_RPS;
+    return Math.max(1, Math.min(HEARTBEAT_MAX_LOAD_MULTIPLIER, pressure));
+  }
+
+  /**
+   * Başlangıçtan beri işlenen heartbeat sayısını getirir
+   * @returns Heartbeat sayısı
+   */
+  public getTotalProcessed(): number {
+    return this.totalProcessed;
+  }
+
+  /**
+   * Pencereyi şimdiki saniyeye kaydırır, pencere dışına çıkan saniyeleri atar
+   * @param now - Zaman (ms)
+   */
+  private advance(now: number): void {
+    const second = Math.floor(now / 1000);
+    const size = HEARTBEAT_LOAD_WINDOW_MS / 1000;
+    const lastSecond = this.windowStart + this.window.length - 1;
+
+    if (this.window.length === 0 || second - lastSecond >= size) {
+      this.window = [0];
+      this.windowStart = second;
+      return;
+    }
+
+    for (let current = lastSecond; current < second; current++) {
+      this.window.push(0);
+    }
+    while (this.window.length > size) {
+      this.window.shift();
+      this.windowStart++;
+    }
+  }
+}
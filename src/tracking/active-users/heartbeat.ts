@@ -4,89 +4,125 @@
  * Bu dosya Active Users tracking için heartbeat mechanism'ini implement eder.
  * Client-side heartbeat (10 saniye + jitter), sendBeacon ile page unload,
  * Activity detection (mouse/keyboard) ve server-side heartbeat processing.
+ *
+ * Interval server tarafından belirlenir: her response'taki next_heartbeat_in
+ * sekme durumu, shop boyutu, plan ve instance yüküne göre hesaplanır
+ * (bkz. heartbeat-policy.ts) ve client sonraki beat'i buna göre planlar.
  */
 
 import { PresenceTracker } from './presence';
-import { HeartbeatPayload, HeartbeatResponse, PresenceData } from './types';
-import { HEARTBEAT_MS, TTL_MS } from './constants';
+import { ShopSettingsResolver } from './shop-settings';
+import { HeartbeatLoadMonitor, calculateHeartbeatSchedule } from './heartbeat-policy';
+import {
+  EngagementState,
+  HeartbeatContext,
+  HeartbeatPayload,
+  HeartbeatResponse,
+  PresenceByeRequest,
+  PresenceData,
+} from './types';
+import { HEARTBEAT_MS, ENGAGEMENT_IDLE_MS } from './constants';
+import { hashIp } from '../utils/privacy';
+import { lookupCountry } from '../utils/geo';
+
+// Giriş referrer'ının session boyunca saklandığı sessionStorage anahtarı
+const ENTRY_REFERRER_STORAGE_KEY = 'au_entry_referrer';
 
 export class HeartbeatManager {
   private presenceTracker: PresenceTracker;
-  private activeHeartbeats: Map<string, NodeJS.Timeout> = new Map();
+  private shopSettings: ShopSettingsResolver;
+  private loadMonitor: HeartbeatLoadMonitor = new HeartbeatLoadMonitor();
+  private shopVisitors: Map<string, number> = new Map(); // Son beat'te görülen visitor sayısı
 
-  constructor(presenceTracker: PresenceTracker) {
+  /**
+   * @param presenceTracker - Presence tracker
+   * @param shopSettings - Shop bazlı TTL / heartbeat interval çözümleyici
+   */
+  constructor(presenceTracker: PresenceTracker, shopSettings: ShopSettingsResolver) {
     this.presenceTracker = presenceTracker;
+    this.shopSettings = shopSettings;
   }
 
   /**
    * Heartbeat'i işler
    * @param payload - Heartbeat payload
+   * @param context - İstek bağlamı (IP, user agent header'ı)
    * @returns Heartbeat response
    */
-  public async processHeartbeat(payload: HeartbeatPayload): Promise<HeartbeatResponse> {
+  public async processHeartbeat(
+    payload: HeartbeatPayload,
+    context: HeartbeatContext = {}
+  ): Promise<HeartbeatResponse> {
+    this.loadMonitor.record();
+
     try {
-      const { shop, visitor_id, session_id, page_path, user_agent } = payload;
+      const { shop, visitor_id, session_id, tab_id, page_path, state, referrer, viewport } = payload;
+      const user_agent = payload.user_agent || context.user_agent;
 
-      console.log('HeartbeatManager: Processing heartbeat', { shop, visitor_id, session_id, page_path });
+      console.log('HeartbeatManager: Processing heartbeat', { shop, visitor_id, session_id, tab_id, page_path });
 
       // Presence data oluştur - Server timestamp kullan
       const presenceData: PresenceData = {
         shop,
         visitor_id,
         session_id: session_id || undefined,
+        tab_id: tab_id || undefined,
         timestamp: Date.now(), // Her zaman server timestamp kullan
         page_path,
+        state,
         user_agent: user_agent || undefined,
+        ip_hash: hashIp(context.ip),
+        country: lookupCountry(context.ip),
+        referrer: referrer || undefined,
+        viewport,
       };
 
-      console.log('HeartbeatManager: Created presence data', presenceData);
-
-      // Visitor presence'ını güncelle
-      await this.presenceTracker.updateVisitorPresence(presenceData);
-      console.log('HeartbeatManager: Updated visitor presence');
+      const config = await this.shopSettings.getConfig(shop);
+      const schedule = calculateHeartbeatSchedule(config.heartbeat_interval_ms, config.ttl_ms, {
+        state,
+        shop_visitors: this.shopVisitors.get(shop) ?? 0,
+        plan_multiplier: await this.shopSettings.getPlanMultiplier(shop),
+        load_multiplier: this.loadMonitor.getLoadMultiplier(),
+      });
 
-      // Session varsa session presence'ını da güncelle
-      if (session_id) {
-        await this.presenceTracker.updateSessionPresence(presenceData);
-        console.log('HeartbeatManager: Updated session presence');
-      }
+      // Visitor + session presence'ını tek atomik adımda güncelle; presence
+      // bir sonraki beat'e kadar canlı kalacak şekilde uzatılır
+      const result = await this.presenceTracker.recordHeartbeat(
+        presenceData,
+        config.ttl_ms,
+        schedule.presence_ttl_ms
+      );
+      this.shopVisitors.set(shop, result.shop_visitors);
 
-      // Heartbeat timeout'ını ayarla
-      this.setHeartbeatTimeout(shop, visitor_id);
+      // Timeout ayrıca takip edilmez: last-seen skoru Redis'te tutulur ve
+      // süresi dolan visitor'lar tick lideri tarafından offline yapılır
 
       return {
         success: true,
-        next_heartbeat_in: this.calculateNextHeartbeatInterval(),
+        next_heartbeat_in: schedule.next_heartbeat_in,
       };
     } catch (error) {
       console.error('Error processing heartbeat:', error);
       return {
         success: false,
         message: 'Failed to process heartbeat',
-        next_heartbeat_in: HEARTBEAT_MS,
+        next_heartbeat_in: this.shopSettings.getBaseConfig().heartbeat_interval_ms,
       };
     }
   }
 
   /**
    * Page unload heartbeat'ini işler
-   * @param payload - Heartbeat payload
+   * @param payload - Page unload (bye) payload
    * @returns Heartbeat response
    */
-  public async processPageUnload(payload: HeartbeatPayload): Promise<HeartbeatResponse> {
+  public async processPageUnload(payload: PresenceByeRequest): Promise<HeartbeatResponse> {
     try {
-      const { shop, visitor_id, session_id } = payload;
+      const { shop, visitor_id, session_id, tab_id } = payload;
+      const config = await this.shopSettings.getConfig(shop);
 
-      // Visitor'ı offline yap
-      await this.presenceTracker.setVisitorOffline(shop, visitor_id);
-
-      // Session varsa session'ı da offline yap
-      if (session_id) {
-        await this.presenceTracker.setSessionOffline(shop, session_id);
-      }
-
-      // Heartbeat timeout'ını temizle
-      this.clearHeartbeatTimeout(shop, visitor_id);
+      // Sekmeyi kapat; visitor ve session sadece son sekme kapandığında offline olur
+      await this.presenceTracker.closeTab({ shop, visitor_id, session_id, tab_id }, config.ttl_ms);
 
       return {
         success: true,
@@ -101,101 +137,32 @@ export class HeartbeatManager {
   }
 
   /**
-   * Heartbeat timeout'ını ayarlar
-   * @param shop - Mağaza kimliği
-   * @param visitor_id - Visitor kimliği
-   */
-  private setHeartbeatTimeout(shop: string, visitor_id: string): void {
-    const key = `${shop}:${visitor_id}`;
-    
-    // Mevcut timeout'ı temizle
-    this.clearHeartbeatTimeout(shop, visitor_id);
-
-    // Yeni timeout ayarla
-    const timeout = setTimeout(async () => {
-      await this.handleHeartbeatTimeout(shop, visitor_id);
-    }, TTL_MS);
-
-    this.activeHeartbeats.set(key, timeout);
-  }
-
-  /**
-   * Heartbeat timeout'ını temizler
-   * @param shop - Mağaza kimliği
-   * @param visitor_id - Visitor kimliği
-   */
-  private clearHeartbeatTimeout(shop: string, visitor_id: string): void {
-    const key = `${shop}:${visitor_id}`;
-    const timeout = this.activeHeartbeats.get(key);
-    
-    if (timeout) {
-      clearTimeout(timeout);
-      this.activeHeartbeats.delete(key);
-    }
-  }
-
-  /**
-   * Heartbeat timeout'ını işler
-   * @param shop - Mağaza kimliği
-   * @param visitor_id - Visitor kimliği
-   */
-  private async handleHeartbeatTimeout(shop: string, visitor_id: string): Promise<void> {
-    try {
-      // Visitor'ı offline yap
-      await this.presenceTracker.setVisitorOffline(shop, visitor_id);
-      
-      // Timeout'ı temizle
-      this.clearHeartbeatTimeout(shop, visitor_id);
-      
-      console.log(`Heartbeat timeout for ${shop}:${visitor_id}`);
-    } catch (error) {
-      console.error('Error handling heartbeat timeout:', error);
-    }
-  }
-
-  /**
-   * Sonraki heartbeat interval'ını hesaplar
-   * @returns Sonraki heartbeat interval (ms)
+   * Registry'den düşen shop'ların visitor sayılarını siler
+   * @param activeShops - Registry'deki aktif shop'lar
    */
-  private calculateNextHeartbeatInterval(): number {
-    // Jitter ekle (±20% random)
-    const jitter = (Math.random() - 0.5) * 0.4; // -20% ile +20% arası
-    const baseInterval = HEARTBEAT_MS;
-    const jitteredInterval = baseInterval * (1 + jitter);
-    
-    return Math.max(1000, Math.min(30000, jitteredInterval)); // 1-30 saniye arası
-  }
-
-  /**
-   * Aktif heartbeat'leri getirir
-   * @returns Aktif heartbeat sayısı
-   */
-  public getActiveHeartbeatCount(): number {
-    return this.activeHeartbeats.size;
-  }
-
-  /**
-   * Tüm heartbeat'leri temizler
-   */
-  public clearAllHeartbeats(): void {
-    for (const [, timeout] of this.activeHeartbeats) {
-      clearTimeout(timeout);
+  public prune(activeShops: string[]): void {
+    const active = new Set(activeShops);
+    for (const shop of this.shopVisitors.keys()) {
+      if (!active.has(shop)) {
+        this.shopVisitors.delete(shop);
+      }
     }
-    this.activeHeartbeats.clear();
   }
 
   /**
-   * Heartbeat istatistiklerini getirir
+   * Heartbeat istatistiklerini getirir (bu instance)
    * @returns Heartbeat istatistikleri
    */
   public getHeartbeatStats(): {
-    active_heartbeats: number;
     total_processed: number;
+    beats_per_second: number;
+    load_multiplier: number;
     timeout_rate: number;
   } {
     return {
-      active_heartbeats: this.activeHeartbeats.size,
-      total_processed: 0, // Bu değer production'da counter ile takip edilebilir
+      total_processed: this.loadMonitor.getTotalProcessed(),
+      beats_per_second: this.loadMonitor.getRate(),
+      load_multiplier: this.loadMonitor.getLoadMultiplier(),
       timeout_rate: 0, // Bu değer production'da hesaplanabilir
     };
   }
@@ -206,13 +173,63 @@ export class HeartbeatManager {
  * Bu fonksiyonlar browser'da çalışacak JavaScript kodlarıdır
  */
 export const ClientHeartbeatHelpers = {
+  /**
+   * Sayfa yüklemesi başına sekme kimliği üretir.
+   * Heartbeat ve page unload payload'larında tab_id olarak gönderilmelidir;
+   * aynı visitor'ın diğer sekmeleri açıkken tek sekmenin kapanması visitor'ı
+   * offline yapmaz.
+   * @returns Sekme kimliği
+   */
+  createTabId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+  },
+
+  /**
+   * Session'ın giriş referrer'ını getirir. İlk sayfadaki document.referrer
+   * sessionStorage'da saklanır; böylece site içi gezinme trafik kaynağını
+   * değiştirmez.
+   * @returns Giriş referrer'ı (direct trafikte boş string)
+   */
+  getEntryReferrer(): string {
+    if (typeof document === 'undefined') return '';
+
+    try {
+      const stored = sessionStorage.getItem(ENTRY_REFERRER_STORAGE_KEY);
+      if (stored !== null) return stored;
+
+      sessionStorage.setItem(ENTRY_REFERRER_STORAGE_KEY, document.referrer);
+    } catch {
+      // sessionStorage kapalıysa (privacy mode) mevcut referrer kullanılır
+    }
+    return document.referrer;
+  },
+
+  /**
+   * Sekmenin etkileşim durumunu belirler
+   * @param lastActivityAt - Son mouse/klavye/scroll/touch aktivitesi (ms)
+   * @returns hidden (sekme arka planda), idle (ENGAGEMENT_IDLE_MS boyunca
+   *   etkileşim yok) veya active
+   */
+  getEngagementState(lastActivityAt: number): EngagementState {
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+      return 'hidden';
+    }
+    return Date.now() - lastActivityAt >= ENGAGEMENT_IDLE_MS ? 'idle' : 'active';
+  },
+
   /**
    * Heartbeat gönderir
    * @param endpoint - Heartbeat endpoint URL
    * @param payload - Heartbeat payload
-   * @returns Promise<boolean>
+   * @returns Server response'u (next_heartbeat_in dahil), istek başarısızsa null
    */
-  async sendHeartbeat(endpoint: string, payload: HeartbeatPayload): Promise<boolean> {
+  async sendHeartbeat(
+    endpoint: string,
+    payload: HeartbeatPayload
+  ): Promise<HeartbeatResponse | null> {
     try {
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -226,11 +243,10 @@ export const ClientHeartbeatHelpers = {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const result = await response.json() as HeartbeatResponse;
-      return result.success;
+      return await response.json() as HeartbeatResponse;
     } catch (error) {
       console.error('Error sending heartbeat:', error);
-      return false;
+      return null;
     }
   },
 
@@ -303,30 +319,69 @@ export const ClientHeartbeatHelpers = {
   /**
    * Heartbeat interval'ını başlatır
    * @param endpoint - Heartbeat endpoint URL
-   * @param payload - Heartbeat payload
+   * Her beat sekmenin etkileşim durumunu (active / idle / hidden) taşır;
+   * durum değiştiğinde (sekme gizlendi/göründü, idle sonrası aktivite)
+   * interval beklenmeden beat gönderilir. Sonraki beat server'ın döndürdüğü
+   * next_heartbeat_in'e göre planlanır (yoksa HEARTBEAT_MS).
+   * @param endpoint - Heartbeat endpoint URL
+   * @param payload - Heartbeat payload (tab_id yoksa bu sayfa için üretilir,
+   *   referrer ve viewport yoksa tarayıcıdan doldurulur)
    * @param onSuccess - Success callback
    * @param onError - Error callback
    * @returns Cleanup function
    */
   startHeartbeatInterval(
     endpoint: string,
-    payload: HeartbeatPayload,
+    heartbeatPayload: HeartbeatPayload,
     onSuccess?: (response: HeartbeatResponse) => void,
     onError?: (error: Error) => void
   ): () => void {
-    let intervalId: NodeJS.Timeout;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     let isActive = true;
+    let beatSeq = 0;
+    // Beat ve unload aynı sekme kimliğini taşımalı
+    const payload: HeartbeatPayload = {
+      ...heartbeatPayload,
+      tab_id: heartbeatPayload.tab_id ?? ClientHeartbeatHelpers.createTabId(),
+      referrer: heartbeatPayload.referrer ?? ClientHeartbeatHelpers.getEntryReferrer(),
+    };
+    if (!payload.viewport && typeof window !== 'undefined') {
+      payload.viewport = { width: window.innerWidth, height: window.innerHeight };
+    }
+
+    let lastActivityAt = Date.now();
+    let lastState: EngagementState = ClientHeartbeatHelpers.getEngagementState(lastActivityAt);
+
+    const scheduleNext = (delay: number) => {
+      if (!isActive) return;
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(sendHeartbeat, delay);
+    };
 
     const sendHeartbeat = async () => {
       if (!isActive) return;
 
+      // Durum değişikliğiyle gönderilen beat bekleyen planı iptal eder;
+      // istek sürerken de sekme düşmesin diye varsayılan interval kurulur
+      scheduleNext(HEARTBEAT_MS);
+      const seq = ++beatSeq;
+
       try {
-        const success = await ClientHeartbeatHelpers.sendHeartbeat(endpoint, payload);
-        
-        if (success && onSuccess) {
-          onSuccess({ success: true, next_heartbeat_in: HEARTBEAT_MS });
-        } else if (!success && onError) {
-          onError(new Error('Heartbeat failed'));
+        lastState = ClientHeartbeatHelpers.getEngagementState(lastActivityAt);
+        const response = await ClientHeartbeatHelpers.sendHeartbeat(endpoint, {
+          ...payload,
+          state: lastState,
+        });
+
+        // Daha yeni bir beat gönderildiyse plan onun response'una kalır
+        if (response?.next_heartbeat_in && seq === beatSeq) {
+          scheduleNext(response.next_heartbeat_in);
+        }
+
+        if (response?.success && onSuccess) {
+          onSuccess(response);
+        } else if (!response?.success && onError) {
+          onError(new Error(response?.message ?? 'Heartbeat failed'));
         }
       } catch (error) {
         if (onError) {
@@ -335,11 +390,21 @@ export const ClientHeartbeatHelpers = {
       }
     };
 
-    // İlk heartbeat'i hemen gönder
+    // İlk heartbeat'i hemen gönder; sonrakiler server'ın interval'ına göre planlanır
     sendHeartbeat();
 
-    // Interval başlat
-    intervalId = setInterval(sendHeartbeat, HEARTBEAT_MS);
+    // Durum değişikliklerini beklemeden bildir
+    const stopActivityDetection = ClientHeartbeatHelpers.startActivityDetection(() => {
+      lastActivityAt = Date.now();
+      if (lastState === 'idle') sendHeartbeat();
+    });
+    const handleVisibilityChange = () => {
+      if (ClientHeartbeatHelpers.getEngagementState(lastActivityAt) !== lastState) sendHeartbeat();
+    };
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
 
     // Page unload listener ekle
     const handlePageUnload = () => {
@@ -354,7 +419,11 @@ export const ClientHeartbeatHelpers = {
     // Cleanup function döndür
     return () => {
       isActive = false;
-      clearInterval(intervalId);
+      clearTimeout(timeoutId);
+      stopActivityDetection();
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
       if (typeof window !== 'undefined') {
         window.removeEventListener('beforeunload', handlePageUnload);
         window.removeEventListener('pagehide', handlePageUnload);
@@ -0,0 +1,213 @@
+import { DatabaseManager } from '../../database/database-manager';
+import { ActiveUsersHistoryReader, groupRows, listBuckets, resolveHistoryRange } from './history';
+import { ActiveUsersValidationError } from './errors';
+import { ACTIVE_USERS_ERROR_CODES } from './constants';
+import { ActiveUsersMinutelyRow } from './types';
+
+const NEW_YORK = 'America/New_York';
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2024-03-20T12:00:00.000Z');
+
+function minutelyRow(bucketTs: string): ActiveUsersMinutelyRow {
+  return {
+    shop: 'test-shop.myshopify.com',
+    bucket_ts: bucketTs,
+    au_raw: 1,
+    au_raw_max: 1,
+    total_tabs: 1,
+    au_ema_fast: 1,
+    au_ema_slow: 1,
+    window_seconds: 60,
+    created_at: bucketTs,
+  };
+}
+
+describe('resolveHistoryRange', () => {
+  it('defaults to the granularity range ending now', () => {
+    const { from, to } = resolveHistoryRange({ granularity: 'hour' }, NEW_YORK, NOW);
+
+    expect(to).toEqual(NOW);
+    expect(to.getTime() - from.getTime()).toBe(24 * HOUR_MS);
+  });
+
+  it('resolves day strings in the shop timezone', () => {
+    const range = resolveHistoryRange(
+      { granularity: 'day', from: '2024-03-10', to: '2024-03-10' },
+      NEW_YORK,
+      NOW
+    );
+
+    expect(range.from.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(range.to.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+  });
+
+  it('accepts ISO times and epoch milliseconds', () => {
+    const range = resolveHistoryRange(
+      {
+        granularity: 'minute',
+        from: '2024-03-20T10:00:00Z',
+        to: String(Date.parse('2024-03-20T11:00:00Z')),
+      },
+      NEW_YORK,
+      NOW
+    );
+
+    expect(range.from.toISOString()).toBe('2024-03-20T10:00:00.000Z');
+    expect(range.to.toISOString()).toBe('2024-03-20T11:00:00.000Z');
+  });
+
+  it('caps the end of the range at now', () => {
+    const { to } = resolveHistoryRange({ granularity: 'day', to: '2024-12-31' }, NEW_YORK, NOW);
+
+    expect(to).toEqual(NOW);
+  });
+
+  it.each([
+    [{ from: '2024-02-30' }, 'Invalid day: 2024-02-30'],
+    [{ from: 'yesterday' }, 'Invalid time: yesterday'],
+    [{ from: '2024-03-20T12:00:00Z', to: '2024-03-20T11:00:00Z' }, 'from must be before to'],
+  ])('rejects %j', (bounds, message) => {
+    const resolve = () => resolveHistoryRange({ granularity: 'hour', ...bounds }, NEW_YORK, NOW);
+
+    expect(resolve).toThrow(ActiveUsersValidationError);
+    expect(resolve).toThrow(message);
+    try {
+      resolve();
+    } catch (error) {
+      expect((error as ActiveUsersValidationError).error.code).toBe(
+        ACTIVE_USERS_ERROR_CODES.INVALID_HISTORY_RANGE
+      );
+    }
+  });
+});
+
+describe('listBuckets', () => {
+  it('aligns minute buckets to the minute', () => {
+    const buckets = listBuckets(
+      'minute',
+      new Date('2024-03-20T10:00:30Z'),
+      new Date('2024-03-20T10:03:00Z'),
+      NEW_YORK
+    );
+
+    expect(buckets.map(bucket => bucket.start.toISOString())).toEqual([
+      '2024-03-20T10:00:00.000Z',
+      '2024-03-20T10:01:00.000Z',
+      '2024-03-20T10:02:00.000Z',
+    ]);
+  });
+
+  it('aligns hour buckets to the wall-clock hour of the timezone', () => {
+    const buckets = listBuckets(
+      'hour',
+      new Date('2024-01-15T10:15:00Z'),
+      new Date('2024-01-15T12:00:00Z'),
+      'Asia/Kolkata'
+    );
+
+    expect(buckets.map(bucket => bucket.start.toISOString())).toEqual([
+      '2024-01-15T09:30:00.000Z',
+      '2024-01-15T10:30:00.000Z',
+      '2024-01-15T11:30:00.000Z',
+    ]);
+  });
+
+  it('lists 23 hour buckets on the spring-forward day', () => {
+    const buckets = listBuckets(
+      'hour',
+      new Date('2024-03-10T05:00:00Z'),
+      new Date('2024-03-11T04:00:00Z'),
+      NEW_YORK
+    );
+
+    expect(buckets).toHaveLength(23);
+  });
+
+  it('lists calendar days with their DST-aware bounds', () => {
+    const buckets = listBuckets(
+      'day',
+      new Date('2024-03-09T05:00:00Z'),
+      new Date('2024-03-12T04:00:00Z'),
+      NEW_YORK
+    );
+
+    expect(buckets.map(bucket => bucket.day)).toEqual(['2024-03-09', '2024-03-10', '2024-03-11']);
+    const springForward = buckets[1];
+    expect(springForward?.start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(springForward?.end.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+  });
+});
+
+describe('groupRows', () => {
+  const buckets = listBuckets(
+    'minute',
+    new Date('2024-03-20T10:00:00Z'),
+    new Date('2024-03-20T10:03:00Z'),
+    NEW_YORK
+  );
+
+  it('assigns sorted rows to their buckets and keeps empty buckets', () => {
+    const rows = [
+      minutelyRow('2024-03-20T10:00:00.000Z'),
+      minutelyRow('2024-03-20T10:00:30.000Z'),
+      minutelyRow('2024-03-20T10:02:00.000Z'),
+    ];
+
+    const groups = groupRows(buckets, rows);
+
+    expect(groups.map(group => group.rows.length)).toEqual([2, 0, 1]);
+    expect(groups[2]?.rows[0]).toBe(rows[2]);
+  });
+
+  it('drops rows outside the buckets', () => {
+    const rows = [
+      minutelyRow('2024-03-20T09:59:00.000Z'),
+      minutelyRow('2024-03-20T10:01:00.000Z'),
+      minutelyRow('2024-03-20T10:03:00.000Z'),
+    ];
+
+    expect(groupRows(buckets, rows).map(group => group.rows.length)).toEqual([0, 1, 0]);
+  });
+});
+
+describe('ActiveUsersHistoryReader day points', () => {
+  function createReader(latestRollupDay: string | null) {
+    const olap = {
+      getActiveUsersDaily: jest.fn().mockResolvedValue([]),
+      getLatestActiveUsersDay: jest.fn().mockResolvedValue(latestRollupDay),
+      getActiveUsersMinutely: jest.fn().mockResolvedValue([]),
+    };
+    const dbManager = {
+      getClickHouse: () => olap,
+      getShopDirectory: () => ({
+        getShop: async () => ({ shop: { settings: { timezone: NEW_YORK } }, plan: null }),
+      }),
+    } as unknown as DatabaseManager;
+
+    return { reader: new ActiveUsersHistoryReader(dbManager), olap };
+  }
+
+  const query = { granularity: 'day' as const, from: '2023-12-01', to: '2024-03-20' };
+
+  it('limits the minutely fallback to the recent days and returns older days as gaps', async () => {
+    const { reader, olap } = createReader(null);
+
+    const history = await reader.getHistory('test-shop.myshopify.com', query, NOW);
+
+    expect(olap.getActiveUsersMinutely).toHaveBeenCalledTimes(1);
+    const [, from, to] = olap.getActiveUsersMinutely.mock.calls[0] as [string, Date, Date];
+    expect(from.toISOString()).toBe('2024-03-13T04:00:00.000Z');
+    expect(to.toISOString()).toBe('2024-03-21T04:00:00.000Z');
+    expect(history.points).toHaveLength(111);
+    expect(history.gaps).toBe(111);
+  });
+
+  it('starts the minutely fallback after the latest rollup day', async () => {
+    const { reader, olap } = createReader('2024-03-18');
+
+    await reader.getHistory('test-shop.myshopify.com', query, NOW);
+
+    const [, from] = olap.getActiveUsersMinutely.mock.calls[0] as [string, Date, Date];
+    expect(from.toISOString()).toBe('2024-03-19T04:00:00.000Z');
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Active Users History
+ *
+ * Bu dosya active_users_minutely ve active_users_daily tablolarından shop'un
+ * timezone'unda zaman serisi üretir (GET /api/active-users/:shop/history).
+ *
+ * - minute: minutely satırlar olduğu gibi döndürülür
+ * - hour: minutely satırlar shop timezone'undaki saatlere toplanır
+ * - day: rollup edilmiş günler active_users_daily'den, henüz rollup
+ *   edilmemiş günler (bugün dahil) minutely satırlardan hesaplanır. Minutely
+ *   fallback son rollup'tan sonraki ve en fazla HISTORY_MINUTELY_FALLBACK_DAYS
+ *   günle sınırlıdır; rollup'ı olmayan daha eski günler boşluk olarak döner.
+ *
+ * Verisi olmayan bucket'lar atlanmaz; değerleri null ve minutes_observed'ı
+ * 0 olan noktalar olarak döndürülür, böylece grafikler boşlukları görür.
+ */
+
+import { DatabaseManager } from '../../database/database-manager';
+import {
+  addDays,
+  formatDay,
+  formatZonedDateTime,
+  getDayBounds,
+  listDays,
+  startOfDay,
+  startOfHour,
+} from '../../utils/timezone';
+import {
+  ActiveUsersDailyRow,
+  ActiveUsersHistory,
+  ActiveUsersHistoryPoint,
+  ActiveUsersMinutelyRow,
+  HistoryGranularity,
+  HistoryQuery,
+} from './types';
+import {
+  ACTIVE_USERS_ERROR_CODES,
+  DAILY_ROLLUP_PERCENTILE,
+  HISTORY_DEFAULT_RANGE_MS,
+  HISTORY_MAX_POINTS,
+  HISTORY_MINUTELY_FALLBACK_DAYS,
+  MINUTE_BUCKET_MS,
+} from './constants';
+import { ActiveUsersValidationError, createActiveUsersError } from './errors';
+import { resolveShopTimeZone } from './shop-settings';
+import { computeDailyMetrics, nearestRankPercentile, round } from './rollup';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EPOCH_MS_PATTERN = /^\d+$/;
+
+// Bucket sayısı tahmini için yaklaşık süreler (DST günleri 23/25 saat olabilir)
+const GRANULARITY_MS: Record<HistoryGranularity, number> = {
+  minute: MINUTE_BUCKET_MS,
+  hour: 60 * MINUTE_BUCKET_MS,
+  day: 24 * 60 * MINUTE_BUCKET_MS,
+};
+
+interface HistoryBucket {
+  start: Date;
+  end: Date;
+  day?: string; // day granularity'de YYYY-MM-DD
+}
+
+export class ActiveUsersHistoryReader {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Shop'un aktif kullanıcı geçmişini getirir
+   * @param shop - Mağaza kimliği
+   * @param query - Aralık ve granularity
+   * @param now - Şu anki zaman (aralık bunu aşamaz)
+   * @returns Boşlukları doldurulmuş zaman serisi
+   * @throws ActiveUsersValidationError - Aralık geçersiz veya çok büyükse
+   */
+  public async getHistory(
+    shop: string,
+    query: HistoryQuery,
+    now: Date = new Date()
+  ): Promise<ActiveUsersHistory> {
+    const { granularity } = query;
+    const timeZone = await resolveShopTimeZone(this.dbManager, shop);
+    const range = resolveHistoryRange(query, timeZone, now);
+
+    if (
+      (range.to.getTime() - range.from.getTime()) / GRANULARITY_MS[granularity] >
+      HISTORY_MAX_POINTS
+    ) {
+      throw rangeError(`Range exceeds ${HISTORY_MAX_POINTS} ${granularity} buckets`);
+    }
+
+    const buckets = listBuckets(granularity, range.from, range.to, timeZone);
+    const first = buckets[0];
+    const last = buckets[buckets.length - 1];
+    if (!first || !last) {
+      throw rangeError('Range is empty');
+    }
+
+    const points =
+      granularity === 'day'
+        ? await this.getDailyPoints(shop, buckets, timeZone, now)
+        : await this.getMinutelyPoints(shop, buckets, first.start, last.end, granularity, timeZone);
+
+    return {
+      shop,
+      timezone: timeZone,
+      granularity,
+      from: first.start.toISOString(),
+      to: last.end.toISOString(),
+      points,
+      gaps: points.filter(point => point.minutes_observed === 0).length,
+    };
+  }
+
+  /**
+   * minute / hour noktalarını minutely satırlardan üretir
+   * @param shop - Mağaza kimliği
+   * @param buckets - Sıralı bucket'lar
+   * @param from - İlk bucket'ın başlangıcı
+   * @param to - Son bucket'ın bitişi
+   * @param granularity - minute veya hour
+   * @param timeZone - Shop timezone'u
+   * @returns Bucket başına nokta
+   */
+  private async getMinutelyPoints(
+    shop: string,
+    buckets: HistoryBucket[],
+    from: Date,
+    to: Date,
+    granularity: HistoryGranularity,
+    timeZone: string
+  ): Promise<ActiveUsersHistoryPoint[]> {
+    const rows = await this.dbManager.getClickHouse().getActiveUsersMinutely(shop, from, to);
+
+    return groupRows(buckets, rows).map(({ bucket, rows: bucketRows }) =>
+      toMinutelyPoint(bucket, bucketRows, granularity === 'minute', timeZone)
+    );
+  }
+
+  /**
+   * day noktalarını üretir: rollup edilmiş günler daily tablosundan, diğerleri
+   * minutely satırlardan
+   * @param shop - Mağaza kimliği
+   * @param buckets - Sıralı gün bucket'ları
+   * @param timeZone - Shop timezone'u
+   * @param now - Şu anki zaman
+   * @returns Gün başına nokta
+   */
+  private async getDailyPoints(
+    shop: string,
+    buckets: HistoryBucket[],
+    timeZone: string,
+    now: Date
+  ): Promise<ActiveUsersHistoryPoint[]> {
+    const olap = this.dbManager.getClickHouse();
+    const days = buckets.map(bucket => bucket.day as string);
+    const dailyRows = await olap.getActiveUsersDaily(
+      shop,
+      days[0] as string,
+      days[days.length - 1] as string
+    );
+    const byDay = new Map<string, ActiveUsersDailyRow>(dailyRows.map(row => [row.day, row]));
+
+    // Rollup'ı olmayan günler (bugün, henüz rollup edilmemiş günler) minutely'den hesaplanır.
+    // Son rollup'tan önceki veya fallback penceresinden eski günler taranmaz (boşluk döner),
+    // böylece tek istek yüzlerce günlük minutely satır okuyamaz.
+    const latest = await olap.getLatestActiveUsersDay(shop);
+    const oldestFallbackDay = addDays(formatDay(now, timeZone), 1 - HISTORY_MINUTELY_FALLBACK_DAYS);
+    const fallbackFrom =
+      latest && addDays(latest, 1) > oldestFallbackDay ? addDays(latest, 1) : oldestFallbackDay;
+    const missing = buckets.filter(
+      bucket => !byDay.has(bucket.day as string) && (bucket.day as string) >= fallbackFrom
+    );
+    const firstMissing = missing[0];
+    const lastMissing = missing[missing.length - 1];
+    if (firstMissing && lastMissing) {
+      const rows = await olap.getActiveUsersMinutely(shop, firstMissing.start, lastMissing.end);
+
+      for (const { bucket, rows: dayRows } of groupRows(missing, rows)) {
+        const metrics = computeDailyMetrics(shop, bucket.day as string, dayRows);
+        if (metrics) byDay.set(metrics.day, metrics);
+      }
+    }
+
+    return buckets.map(bucket => {
+      const row = byDay.get(bucket.day as string);
+      if (!row || row.minutes_observed === 0) return toGapPoint(bucket, timeZone);
+
+      return {
+        timestamp: bucket.start.toISOString(),
+        local_time: formatZonedDateTime(bucket.start, timeZone),
+        au_raw: row.avg_au_raw,
+        au_raw_p95: row.p95_au_raw,
+        au_raw_max: row.max_au_raw,
+        au_raw_max_at: row.max_au_raw_at,
+        au_ema_fast: row.avg_au_ema_fast ?? null,
+        au_ema_slow: row.avg_au_ema,
+        minutes_observed: row.minutes_observed,
+      };
+    });
+  }
+}
+
+/**
+ * Query'deki from / to'yu shop timezone'unda yarı açık [from, to) aralığına çevirir
+ * @param query - History query'si
+ * @param timeZone - Shop timezone'u
+ * @param now - Şu anki zaman
+ * @returns Aralık (to, now'ı aşmaz)
+ * @throws ActiveUsersValidationError - Sınırlar parse edilemezse veya from >= to
+ */
+export function resolveHistoryRange(
+  query: HistoryQuery,
+  timeZone: string,
+  now: Date
+): { from: Date; to: Date } {
+  const requestedTo = query.to ? parseHistoryBound(query.to, timeZone, true) : now;
+  const to = new Date(Math.min(requestedTo.getTime(), now.getTime()));
+  const from = query.from
+    ? parseHistoryBound(query.from, timeZone, false)
+    : new Date(to.getTime() - HISTORY_DEFAULT_RANGE_MS[query.granularity]);
+
+  if (from.getTime() >= to.getTime()) {
+    throw rangeError('from must be before to');
+  }
+
+  return { from, to };
+}
+
+/**
+ * Aralık sınırını parse eder
+ * @param value - ISO zaman, epoch ms veya YYYY-MM-DD
+ * @param timeZone - Shop timezone'u (gün string'leri için)
+ * @param isEnd - to sınırı mı (gün string'i o günün sonunu ifade eder)
+ * @returns Zaman
+ */
+function parseHistoryBound(value: string, timeZone: string, isEnd: boolean): Date {
+  if (DAY_PATTERN.test(value)) {
+    // 2024-02-30 gibi takvimde olmayan günler reddedilir
+    if (addDays(value, 0) !== value) {
+      throw rangeError(`Invalid day: ${value}`);
+    }
+    return isEnd ? getDayBounds(value, timeZone).end : startOfDay(value, timeZone);
+  }
+
+  const date = EPOCH_MS_PATTERN.test(value) ? new Date(Number(value)) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw rangeError(`Invalid time: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Aralığı kapsayan bucket'ları shop timezone'unda listeler
+ * @param granularity - Bucket boyutu
+ * @param from - Başlangıç (bucket başına yuvarlanır)
+ * @param to - Bitiş (hariç)
+ * @param timeZone - Shop timezone'u
+ * @returns Sıralı bucket'lar
+ */
+export function listBuckets(
+  granularity: HistoryGranularity,
+  from: Date,
+  to: Date,
+  timeZone: string
+): HistoryBucket[] {
+  if (granularity === 'day') {
+    return listDays(formatDay(from, timeZone), formatDay(new Date(to.getTime() - 1), timeZone)).map(
+      day => ({ ...getDayBounds(day, timeZone), day })
+    );
+  }
+
+  const step = GRANULARITY_MS[granularity];
+  const first =
+    granularity === 'hour'
+      ? startOfHour(from, timeZone).getTime()
+      : Math.floor(from.getTime() / step) * step;
+
+  const buckets: HistoryBucket[] = [];
+  for (let start = first; start < to.getTime(); start += step) {
+    buckets.push({ start: new Date(start), end: new Date(start + step) });
+  }
+  return buckets;
+}
+
+/**
+ * bucket_ts'e göre sıralı minutely satırları bucket'lara dağıtır
+ * @param buckets - Sıralı bucket'lar
+ * @param rows - bucket_ts'e göre sıralı satırlar
+ * @returns Bucket ve satırları
+ */
+export function groupRows(
+  buckets: HistoryBucket[],
+  rows: ActiveUsersMinutelyRow[]
+): Array<{ bucket: HistoryBucket; rows: ActiveUsersMinutelyRow[] }> {
+  const groups = buckets.map(bucket => ({ bucket, rows: [] as ActiveUsersMinutelyRow[] }));
+  let index = 0;
+
+  for (const row of rows) {
+    const ts = new Date(row.bucket_ts).getTime();
+    let group = groups[index];
+    while (group && ts >= group.bucket.end.getTime()) {
+      group = groups[++index];
+    }
+
+    if (!group) break;
+    if (ts >= group.bucket.start.getTime()) group.rows.push(row);
+  }
+
+  return groups;
+}
+
+/**
+ * Minutely satırlardan bir noktayı hesaplar
+ * @param bucket - Bucket
+ * @param rows - Bucket'ın satırları
+ * @param single - minute granularity (tek satır; p95 anlamsız)
+ * @param timeZone - Shop timezone'u
+ * @returns Nokta
+ */
+function toMinutelyPoint(
+  bucket: HistoryBucket,
+  rows: ActiveUsersMinutelyRow[],
+  single: boolean,
+  timeZone: string
+): ActiveUsersHistoryPoint {
+  const first = rows[0];
+  if (!first) return toGapPoint(bucket, timeZone);
+
+  let sumRaw = 0;
+  let sumEmaFast = 0;
+  let sumEmaSlow = 0;
+  let peak = first;
+
+  for (const row of rows) {
+    sumRaw += row.au_raw;
+    sumEmaFast += row.au_ema_fast;
+    sumEmaSlow += row.au_ema_slow;
+    if (row.au_raw_max > peak.au_raw_max) peak = row;
+  }
+
+  return {
+    timestamp: bucket.start.toISOString(),
+    local_time: formatZonedDateTime(bucket.start, timeZone),
+    au_raw: round(sumRaw / rows.length),
+    au_raw_p95: single
+      ? null
+      : nearestRankPercentile(
+          rows.map(row => row.au_raw),
+          DAILY_ROLLUP_PERCENTILE
+        ),
+    au_raw_max: peak.au_raw_max,
+    au_raw_max_at: peak.bucket_ts,
+    au_ema_fast: round(sumEmaFast / rows.length),
+    au_ema_slow: round(sumEmaSlow / rows.length),
+    minutes_observed: rows.length,
+  };
+}
+
+/**
+ * Verisi olmayan bucket için nokta
+ * @param bucket - Bucket
+ * @param timeZone - Shop timezone'u
+ * @returns Değerleri null olan nokta
+ */
+function toGapPoint(bucket: HistoryBucket, timeZone: string): ActiveUsersHistoryPoint {
+  return {
+    timestamp: bucket.start.toISOString(),
+    local_time: formatZonedDateTime(bucket.start, timeZone),
+    au_raw: null,
+    au_raw_p95: null,
+    au_raw_max: null,
+    au_raw_max_at: null,
+    au_ema_fast: null,
+    au_ema_slow: null,
+    minutes_observed: 0,
+  };
+}
+
+/**
+ * Geçersiz aralık hatası
+ * @param message - Hata mesajı
+ * @returns ActiveUsersValidationError
+ */
+function rangeError(message: string): ActiveUsersValidationError {
+  return new ActiveUsersValidationError(
+    createActiveUsersError(ACTIVE_USERS_ERROR_CODES.INVALID_HISTORY_RANGE, message)
+  );
+}
@@ -6,8 +6,37 @@
  */
 
 // Main classes
-export { PresenceTracker } from './presence';
+export { PresenceTracker, toActiveUserCount } from './presence';
+export { PresenceEventBus } from './events';
+export { ActiveShopRegistry } from './registry';
+export { RedisLease } from './lease';
+export { EMAStateStore } from './ema-state';
+export { ShopSettingsResolver, resolveShopTimeZone } from './shop-settings';
+export { DEFAULT_ACTIVE_USERS_CONFIG, createActiveUsersConfig, applyShopOverrides } from './config';
+export { MinutelyMetricsRecorder, getMinuteBucket } from './minutely';
+export { DailyRollupJob, computeDailyMetrics, nearestRankPercentile } from './rollup';
+export { ActiveUsersHistoryReader, resolveHistoryRange } from './history';
 export { HeartbeatManager, ClientHeartbeatHelpers } from './heartbeat';
+export {
+  HeartbeatLoadMonitor,
+  calculateHeartbeatSchedule,
+  getShopSizeMultiplier,
+} from './heartbeat-policy';
+export { AnomalyDetector, detectAnomaly } from './anomaly';
+export { AlertDispatcher, signWebhookPayload, ALERT_WEBHOOK_EVENT } from './alerts';
+export { ActiveUsersStream } from './stream';
+export type { StreamSnapshotProvider } from './stream';
+export {
+  PRESENCE_DIMENSIONS,
+  BREAKDOWN_DIMENSIONS,
+  normalizePagePath,
+  classifyPageType,
+  classifyUserAgent,
+  classifyReferrer,
+  getDimensionValues,
+  getDimensionKey,
+  getDimensionKeys,
+} from './dimensions';
 
 // EMA functions
 export {
@@ -21,7 +50,35 @@ export {
   isValidEMAState,
   resetEMAState,
   getEMAStats,
+  getEMAStrategy,
+  DEFAULT_EMA_TAUS,
 } from './ema';
+export type { EMAStrategy } from './ema';
+
+// Validation
+export {
+  heartbeatPayloadSchema,
+  presenceBeatRequestSchema,
+  presenceByeRequestSchema,
+  activeUsersConfigSchema,
+  shopActiveUsersSettingsSchema,
+  streamClientMessageSchema,
+  activeUsersStreamResponseSchema,
+  topDimensionQuerySchema,
+  breakdownQuerySchema,
+  historyQuerySchema,
+  alertsQuerySchema,
+  alertWebhookSecretSchema,
+  shopSchema,
+} from './schemas';
+export {
+  ActiveUsersValidationError,
+  ActiveUsersConfigError,
+  createActiveUsersError,
+  fromZodError,
+  parsePayload,
+} from './errors';
+export type { ActiveUsersErrorCode } from './errors';
 
 // Types
 export type {
@@ -30,16 +87,52 @@ export type {
   RedisPresenceData,
   EMAResult,
   EMAState,
+  EMATaus,
+  HeartbeatUpsertResult,
+  TabCloseResult,
+  PresenceCounts,
+  ShopActiveUsersSettings,
   HeartbeatPayload,
   HeartbeatResponse,
+  HeartbeatIntervalFactors,
+  HeartbeatSchedule,
   ActiveUsersMetrics,
   DailyActiveUsersMetrics,
   PresenceBeatRequest,
   PresenceByeRequest,
   ActiveUsersStreamResponse,
+  ActiveUsersStreamClientMessage,
+  ActiveUsersStreamFrame,
+  ActiveUsersStreamListener,
+  ActiveUsersStreamEvent,
+  PresenceDimension,
+  PageType,
+  DimensionCount,
+  TopDimensionQuery,
+  BreakdownDimension,
+  DeviceClass,
+  ReferrerChannel,
+  EngagementState,
+  BreakdownQuery,
+  ActiveUsersBreakdowns,
+  HeartbeatContext,
+  HistoryGranularity,
+  HistoryQuery,
+  ActiveUsersHistory,
+  ActiveUsersHistoryPoint,
+  AnomalySensitivity,
+  AnomalyKind,
+  AnomalySeverity,
+  AnomalyThresholds,
+  ActiveUsersAlert,
+  AlertsQuery,
   ActiveUsersError,
   ActiveUsersConfig,
   PresenceEvent,
+  PresenceEventType,
+  PresenceEventData,
+  PresenceEventListener,
+  PresenceEndReason,
   EMACalculationEvent,
   TrendDirection,
   PresenceStatus,
@@ -54,92 +147,339 @@ export {
   HEARTBEAT_MS,
   TTL_MS,
   TICK_MS,
+  ENGAGEMENT_IDLE_MS,
+  DEFAULT_ENGAGEMENT_STATE,
   EMA_TAU_FAST,
   EMA_TAU_SLOW,
   REDIS_KEYS,
   DB_TABLES,
   EMA_MIN_ALPHA,
   EMA_MAX_ALPHA,
-  PRESENCE_CLEANUP_INTERVAL_MS,
   PRESENCE_BATCH_SIZE,
+  SHOP_REGISTRY_RETENTION_MS,
+  TICK_LEASE_TTL_MS,
+  PRESENCE_KEY_EXPIRY_GRACE_TICKS,
+  MINUTE_BUCKET_MS,
+  MINUTELY_FLUSH_DELAY_TICKS,
+  DAILY_ROLLUP_CRON,
+  DAILY_ROLLUP_BACKFILL_DAYS,
+  HISTORY_MAX_POINTS,
+  HISTORY_DEFAULT_RANGE_MS,
+  HEARTBEAT_STATE_MULTIPLIERS,
+  HEARTBEAT_SHOP_SIZE_TIERS,
+  HEARTBEAT_REALTIME_PLAN_FEATURE,
+  HEARTBEAT_STANDARD_PLAN_MULTIPLIER,
+  HEARTBEAT_LOAD_WINDOW_MS,
+  HEARTBEAT_LOAD_TARGET_RPS,
+  HEARTBEAT_MAX_LOAD_MULTIPLIER,
+  HEARTBEAT_JITTER_RATIO,
+  MAX_ADAPTIVE_HEARTBEAT_INTERVAL_MS,
+  PRESENCE_EVENT_TYPE_PREFIX,
+  PRESENCE_EVENT_FLUSH_INTERVAL_MS,
+  PRESENCE_EVENT_BUFFER_MAX,
+  ANOMALY_SENSITIVITY_PRESETS,
+  ALERT_COOLDOWN_MS,
+  MIN_ALERT_COOLDOWN_MS,
+  MAX_ALERT_COOLDOWN_MS,
+  ALERT_HISTORY_MAXLEN,
+  ALERT_HISTORY_TTL_MS,
+  ALERT_WEBHOOK_TIMEOUT_MS,
+  ALERT_EVENT_TYPE,
+  EMA_STATE_TTL_MS,
+  EMA_CHECKPOINT_INTERVAL_MS,
+  EMA_LINEAR_WINDOW_FACTOR,
+  EMA_ADAPTIVE_WINDOW,
+  EMA_ADAPTIVE_SPEEDUP,
   MAX_RETRY_ATTEMPTS,
   RETRY_DELAY_MS,
+  STREAM_PING_INTERVAL_MS,
+  MAX_STREAM_SUBSCRIPTIONS,
+  STREAM_REPLAY_MAXLEN,
+  STREAM_REPLAY_TTL_MS,
+  SSE_KEEP_ALIVE_MS,
+  SSE_RETRY_MS,
+  TOP_DIMENSION_DEFAULT_LIMIT,
+  TOP_DIMENSION_MAX_LIMIT,
+  STREAM_TOP_PAGES_LIMIT,
+  BREAKDOWN_DEFAULT_LIMIT,
+  UNKNOWN_DIMENSION_VALUE,
+  TABLET_MIN_VIEWPORT_WIDTH,
+  DESKTOP_MIN_VIEWPORT_WIDTH,
+  MIN_HEARTBEAT_INTERVAL_MS,
+  MAX_HEARTBEAT_INTERVAL_MS,
+  MIN_PRESENCE_TTL_MS,
+  MAX_PRESENCE_TTL_MS,
+  MIN_TICK_INTERVAL_MS,
+  MAX_TICK_INTERVAL_MS,
+  MAX_EMA_TAU_SECONDS,
   MIN_SHOP_ID_LENGTH,
   MAX_SHOP_ID_LENGTH,
   MIN_VISITOR_ID_LENGTH,
   MAX_VISITOR_ID_LENGTH,
+  MAX_SESSION_ID_LENGTH,
+  MAX_TAB_ID_LENGTH,
+  DEFAULT_TAB_ID,
+  MAX_PAGE_PATH_LENGTH,
+  MAX_USER_AGENT_LENGTH,
+  MAX_REFERRER_LENGTH,
+  ACTIVE_USERS_ERROR_CODES,
   CACHE_TTL_SECONDS,
   BATCH_PROCESSING_DELAY_MS,
 } from './constants';
 
 // Main Active Users Manager Class
 import { redis } from '../../utils/redis';
-import { PresenceTracker } from './presence';
+import { DatabaseManager } from '../../database/database-manager';
+import { PresenceTracker, toActiveUserCount } from './presence';
+import { PresenceEventBus } from './events';
 import { HeartbeatManager } from './heartbeat';
+import { RedisLease } from './lease';
+import { EMAStateStore } from './ema-state';
+import { ShopSettingsResolver } from './shop-settings';
+import { MinutelyMetricsRecorder } from './minutely';
+import { DailyRollupJob } from './rollup';
+import { ActiveUsersHistoryReader } from './history';
+import { AnomalyDetector } from './anomaly';
+import { AlertDispatcher } from './alerts';
+import { createActiveUsersConfig } from './config';
+import { ActiveUsersStream } from './stream';
+import { BREAKDOWN_DIMENSIONS } from './dimensions';
 import { 
   updateEMAState, 
   calculateEMAResult, 
   createInitialEMAState,
-  isValidEMAState 
 } from './ema';
 import { 
+  ActiveUsersAlert,
+  ActiveUsersBreakdowns,
+  ActiveUsersConfig,
+  ActiveUsersHistory,
   ActiveUsersMetrics, 
-  EMAState
+  ActiveUsersStreamEvent,
+  ActiveUsersStreamListener,
+  ActiveUsersStreamResponse,
+  DailyActiveUsersMetrics,
+  DimensionCount,
+  EMAState,
+  HeartbeatContext,
+  HeartbeatResponse,
+  HistoryQuery,
+  PresenceCounts,
+  PresenceDimension,
+  PresenceEventListener,
 } from './types';
-import { REDIS_KEYS, TTL_MS, TICK_MS } from './constants';
+import { heartbeatPayloadSchema, presenceByeRequestSchema } from './schemas';
+import { parsePayload } from './errors';
+import {
+  REDIS_KEYS,
+  EMA_CHECKPOINT_INTERVAL_MS,
+  RETRY_DELAY_MS,
+  STREAM_TOP_PAGES_LIMIT,
+  TOP_DIMENSION_DEFAULT_LIMIT,
+  BREAKDOWN_DEFAULT_LIMIT,
+  ALERT_HISTORY_MAXLEN,
+  MINUTELY_FLUSH_DELAY_TICKS,
+} from './constants';
 
 export class ActiveUsersManager {
+  private config: ActiveUsersConfig;
   private presenceTracker: PresenceTracker;
+  private presenceEvents: PresenceEventBus;
   private heartbeatManager: HeartbeatManager;
   private tickInterval: NodeJS.Timeout | undefined;
+  private tickInFlight: Promise<void> | undefined;
+  private tickLease: RedisLease;
+  private minutelyRecorder: MinutelyMetricsRecorder | undefined;
+  private dailyRollup: DailyRollupJob | undefined;
+  private historyReader: ActiveUsersHistoryReader | undefined;
+  private anomalyDetector: AnomalyDetector;
+  private alertDispatcher: AlertDispatcher;
+  private emaStateStore: EMAStateStore;
+  private shopSettings: ShopSettingsResolver;
+  private stream: ActiveUsersStream;
+  private emaStates: Map<string, EMAState> = new Map();
+  private lastCheckpointAt = Date.now();
+
+  /**
+   * @param dbManager - Shop override'ları buradan okunur; enable_database_logging açıksa
+   *   dakikalık/günlük metrikler, EMA checkpoint'leri ve presence event'leri de buraya yazılır
+   * @param config - Varsayılanların üzerine yazılacak konfigürasyon
+   * @throws ActiveUsersConfigError - Konfigürasyon geçersizse
+   */
+  constructor(dbManager?: DatabaseManager, config?: Partial<ActiveUsersConfig>) {
+    this.config = createActiveUsersConfig(config);
+    const loggingDb = this.config.enable_database_logging ? dbManager : undefined;
 
-  constructor() {
-    this.presenceTracker = new PresenceTracker();
-    this.heartbeatManager = new HeartbeatManager(this.presenceTracker);
+    this.shopSettings = new ShopSettingsResolver(this.config, dbManager);
+    this.presenceEvents = new PresenceEventBus(this.config, loggingDb);
+    this.presenceTracker = new PresenceTracker(this.config, this.presenceEvents);
+    this.heartbeatManager = new HeartbeatManager(this.presenceTracker, this.shopSettings);
+    // Lider ölürse en geç ~2 tick içinde failover
+    this.tickLease = new RedisLease(REDIS_KEYS.TICK_LEASE, this.config.tick_interval_ms * 2);
+    this.minutelyRecorder = loggingDb
+      ? new MinutelyMetricsRecorder(
+          loggingDb,
+          this.config.tick_interval_ms * MINUTELY_FLUSH_DELAY_TICKS
+        )
+      : undefined;
+    this.dailyRollup = loggingDb ? new DailyRollupJob(loggingDb) : undefined;
+    // Geçmiş, loglama kapalıyken de önceden yazılmış tablolardan okunabilir
+    this.historyReader = dbManager ? new ActiveUsersHistoryReader(dbManager) : undefined;
+    this.anomalyDetector = new AnomalyDetector();
+    this.alertDispatcher = new AlertDispatcher(loggingDb, this.config.max_retry_attempts, shop =>
+      this.shopSettings.getWebhookSecret(shop)
+    );
+    this.emaStateStore = new EMAStateStore(loggingDb);
+    this.stream = new ActiveUsersStream(shop => this.getStreamSnapshot(shop));
+  }
+
+  /**
+   * Manager'ın base konfigürasyonunu getirir
+   * @returns Doğrulanmış konfigürasyon
+   */
+  public getConfig(): ActiveUsersConfig {
+    return this.config;
   }
 
   /**
    * Active Users Manager'ı başlatır
    */
   public async start(): Promise<void> {
-    await this.presenceTracker.start();
-    
-    // Tick interval'ı başlat (EMA hesaplamaları için)
-    this.tickInterval = setInterval(
-      () => this.processTick(),
-      TICK_MS
-    );
+    // Checkpoint'lenmiş EMA state'lerini geri yükle
+    try {
+      const restored = await this.emaStateStore.restore();
+      if (restored > 0) {
+        console.log(`ActiveUsersManager: Restored ${restored} EMA states from checkpoint`);
+      }
+    } catch (error) {
+      console.error('Error restoring EMA states:', error);
+    }
+
+    // Tick interval'ı başlat (presence sweep + EMA hesaplamaları için)
+    // Her instance tick'ler, ama sadece lease sahibi (lider) işlem yapar.
+    // Önceki tick bitmediyse bu tick atlanır (EMA iki kez ilerlemesin).
+    this.tickInterval = setInterval(() => {
+      if (this.tickInFlight) {
+        console.warn('ActiveUsersManager: Previous tick still running, skipping tick');
+        return;
+      }
+      this.tickInFlight = this.processTick().finally(() => {
+        this.tickInFlight = undefined;
+      });
+    }, this.config.tick_interval_ms);
+
+    // Günlük rollup cron job'ı
+    this.dailyRollup?.start();
+
+    // Presence event'lerinin OLAP'a periyodik yazımı (her instance kendi event'lerini yazar)
+    this.presenceEvents.start();
+
+    // Canlı dashboard stream'i (pubsub kapalıysa yayın olmadığı için dinlenmez)
+    if (this.config.enable_redis_pubsub) {
+      await this.stream.start();
+    }
   }
 
   /**
    * Active Users Manager'ı durdurur
    */
   public async stop(): Promise<void> {
-    await this.presenceTracker.stop();
-    this.heartbeatManager.clearAllHeartbeats();
-    
     if (this.tickInterval) {
       clearInterval(this.tickInterval);
       this.tickInterval = undefined;
     }
+    await this.tickInFlight;
+
+    await this.dailyRollup?.stop();
+    await this.stream.stop();
+    await this.presenceEvents.stop();
+
+    // Lider, son state'leri checkpoint'leyerek kapanır
+    if (this.tickLease.isLeader()) {
+      await this.checkpointEMAStates();
+    }
+
+    // Lease'i bırak ki başka instance beklemeden lider olsun
+    await this.tickLease.release();
   }
 
   /**
-   * Heartbeat'i işler
-   * @param payload - Heartbeat payload
+   * Heartbeat'i doğrular ve işler
+   * @param payload - Ham heartbeat payload
+   * @param context - İstek bağlamı (IP, user agent header'ı)
    * @returns Heartbeat response
+   * @throws ActiveUsersValidationError - Payload geçersizse
    */
-  public async processHeartbeat(payload: any): Promise<any> {
-    return await this.heartbeatManager.processHeartbeat(payload);
+  public async processHeartbeat(payload: unknown, context: HeartbeatContext = {}): Promise<HeartbeatResponse> {
+    const heartbeat = parsePayload(heartbeatPayloadSchema, payload);
+    return await this.heartbeatManager.processHeartbeat(heartbeat, context);
   }
 
   /**
-   * Page unload'ı işler
-   * @param payload - Page unload payload
+   * Page unload'ı doğrular ve işler
+   * @param payload - Ham page unload payload
    * @returns Response
+   * @throws ActiveUsersValidationError - Payload geçersizse
+   */
+  public async processPageUnload(payload: unknown): Promise<HeartbeatResponse> {
+    const bye = parsePayload(presenceByeRequestSchema, payload);
+    return await this.heartbeatManager.processPageUnload(bye);
+  }
+
+  /**
+   * Verilen gün aralığının günlük metriklerini yeniden hesaplar
+   * @param shop - Mağaza kimliği
+   * @param fromDay - Başlangıç günü (YYYY-MM-DD, shop timezone'unda)
+   * @param toDay - Bitiş günü (YYYY-MM-DD, shop timezone'unda)
+   * @returns Hesaplanan günlük metrikler
    */
-  public async processPageUnload(payload: any): Promise<any> {
-    return await this.heartbeatManager.processPageUnload(payload);
+  public async recomputeDailyMetrics(
+    shop: string,
+    fromDay: string,
+    toDay: string
+  ): Promise<DailyActiveUsersMetrics[]> {
+    if (!this.dailyRollup) {
+      throw new Error('Daily rollup requires a database manager');
+    }
+    return await this.dailyRollup.recompute(shop, fromDay, toDay);
+  }
+
+  /**
+   * Aktif kullanıcı geçmişini shop timezone'unda getirir
+   * @param shop - Mağaza kimliği
+   * @param query - Aralık (from / to) ve granularity
+   * @returns Boşlukları doldurulmuş zaman serisi
+   * @throws ActiveUsersValidationError - Aralık geçersiz veya çok büyükse
+   */
+  public async getActiveUsersHistory(shop: string, query: HistoryQuery): Promise<ActiveUsersHistory> {
+    if (!this.historyReader) {
+      throw new Error('Active users history requires a database manager');
+    }
+    return await this.historyReader.getHistory(shop, query);
+  }
+
+  /**
+   * Shop'un son anomali alert'lerini getirir
+   * @param shop - Mağaza kimliği
+   * @param limit - Maksimum alert sayısı
+   * @returns En yenisi başta olacak şekilde alert'ler
+   */
+  public async getActiveUsersAlerts(
+    shop: string,
+    limit: number = ALERT_HISTORY_MAXLEN
+  ): Promise<ActiveUsersAlert[]> {
+    return await this.alertDispatcher.getRecentAlerts(shop, limit);
+  }
+
+  /**
+   * Shop'un alert webhook secret'ını getirir (yoksa üretir). Merchant'ın
+   * X-Active-Users-Signature'ı doğrulayabilmesi için admin tarafında gösterilir;
+   * kimlik doğrulamasız API'den sunulmamalıdır.
+   * @param shop - Mağaza domain'i
+   * @returns Secret (database yoksa veya shop bulunamazsa null)
+   */
+  public async getAlertWebhookSecret(shop: string): Promise<string | null> {
+    return await this.shopSettings.getWebhookSecret(shop);
   }
 
   /**
@@ -148,7 +488,8 @@ export class ActiveUsersManager {
    * @returns Aktif kullanıcı sayısı
    */
   public async getActiveUserCount(shop: string): Promise<number> {
-    return await this.presenceTracker.getActiveUserCount(shop);
+    const config = await this.shopSettings.getConfig(shop);
+    return await this.presenceTracker.getActiveUserCount(shop, config.ttl_ms);
   }
 
   /**
@@ -157,81 +498,130 @@ export class ActiveUsersManager {
    * @returns Active Users metrikleri
    */
   public async getActiveUsersMetrics(shop: string): Promise<ActiveUsersMetrics> {
-    const auRaw = await this.presenceTracker.getActiveUserCount(shop);
-    const emaState = await this.getEMAState(shop);
+    const config = await this.shopSettings.getConfig(shop);
+    const counts = await this.presenceTracker.getPresenceCounts(shop, config.ttl_ms);
+    const auRaw = toActiveUserCount(counts);
+    const emaState = (await this.emaStateStore.get(shop)) ?? createInitialEMAState(auRaw, Date.now());
     const emaResult = calculateEMAResult(emaState);
     
     return {
       shop,
       timestamp: Date.now(),
       au_raw: auRaw,
+      au_engaged: counts.engaged,
       au_ema_fast: emaResult.ema_fast,
       au_ema_slow: emaResult.ema_slow,
-      total_tabs: auRaw, // Bu değer daha detaylı hesaplanabilir
-      window_seconds: Math.floor(TTL_MS / 1000),
+      active_visitors: counts.visitors,
+      active_sessions: counts.sessions,
+      idle_visitors: counts.idle,
+      hidden_visitors: counts.hidden,
+      total_tabs: counts.tabs,
+      window_seconds: Math.floor(config.ttl_ms / 1000),
     };
   }
 
   /**
-   * EMA state'ini getirir
+   * Canlı visitor dağılımlarını (cihaz, tarayıcı, ülke, trafik kaynağı) getirir.
+   * Değerler heartbeat'lerde artırımlı tutulan sayaçlardan okunur.
    * @param shop - Mağaza kimliği
-   * @returns EMA state
+   * @param limit - Dağılım başına maksimum değer sayısı
+   * @returns Visitor dağılımları
    */
-  private async getEMAState(shop: string): Promise<EMAState> {
-    const key = `${REDIS_KEYS.EMA_STATE}:${shop}`;
-    
-    try {
-      const data = await redis.getClient().hgetall(key);
-      
-      if (!data || Object.keys(data).length === 0) {
-        // İlk kez, sıfır state oluştur
-        const initialState = createInitialEMAState(0, Date.now());
-        await this.setEMAState(shop, initialState);
-        return initialState;
-      }
+  public async getActiveUsersBreakdowns(
+    shop: string,
+    limit: number = BREAKDOWN_DEFAULT_LIMIT
+  ): Promise<ActiveUsersBreakdowns> {
+    const config = await this.shopSettings.getConfig(shop);
+    const [activeVisitors, ...breakdowns] = await Promise.all([
+      this.presenceTracker.getActiveVisitorCount(shop, config.ttl_ms),
+      ...BREAKDOWN_DIMENSIONS.map(dimension =>
+        this.presenceTracker.getTopDimension(shop, dimension, limit)
+      ),
+    ]);
+    const [device = [], browser = [], country = [], referrer = []] = breakdowns;
 
-      const emaState: EMAState = {
-        ema_fast: parseFloat(String(data['ema_fast'] || '0')),
-        ema_slow: parseFloat(String(data['ema_slow'] || '0')),
-        last_ts: parseInt(String(data['last_ts'] || '0')),
-        last_au_raw: parseInt(String(data['last_au_raw'] || '0')),
-      };
+    return {
+      shop,
+      timestamp: Date.now(),
+      active_visitors: activeVisitors,
+      device,
+      browser,
+      country,
+      referrer,
+    };
+  }
 
-      if (!isValidEMAState(emaState)) {
-        // Geçersiz state, sıfırla
-        const initialState = createInitialEMAState(0, Date.now());
-        await this.setEMAState(shop, initialState);
-        return initialState;
-      }
+  /**
+   * Shop'un canlı stream snapshot'ını getirir
+   * @param shop - Mağaza kimliği
+   * @returns Güncel aktif kullanıcı değerleri
+   */
+  public async getStreamSnapshot(shop: string): Promise<ActiveUsersStreamResponse> {
+    const now = Date.now();
+    const config = await this.shopSettings.getConfig(shop);
+    const [counts, pages] = await Promise.all([
+      this.presenceTracker.getPresenceCounts(shop, config.ttl_ms),
+      this.getStreamPages(shop),
+    ]);
+    const emaState =
+      (await this.emaStateStore.get(shop)) ?? createInitialEMAState(toActiveUserCount(counts), now);
 
-      return emaState;
-    } catch (error) {
-      console.error('Error getting EMA state:', error);
-      return createInitialEMAState(0, Date.now());
-    }
+    return { ...this.toStreamResponse(shop, counts, emaState, now), ...pages };
   }
 
   /**
-   * EMA state'ini set eder
+   * Shop'ta en çok online visitor'ı olan sayfaları (veya sayfa tiplerini) getirir
    * @param shop - Mağaza kimliği
-   * @param emaState - EMA state
+   * @param dimension - page_path veya page_type
+   * @param limit - Maksimum sonuç sayısı
+   * @returns Visitor sayısına göre azalan sırada değerler
    */
-  private async setEMAState(shop: string, emaState: EMAState): Promise<void> {
-    const key = `${REDIS_KEYS.EMA_STATE}:${shop}`;
-    
-    try {
-      await redis.getClient().hset(key, {
-        ema_fast: emaState.ema_fast.toString(),
-        ema_slow: emaState.ema_slow.toString(),
-        last_ts: emaState.last_ts.toString(),
-        last_au_raw: emaState.last_au_raw.toString(),
-      });
-      
-      // TTL ayarla
-      await redis.getClient().expire(key, Math.ceil(TTL_MS / 1000));
-    } catch (error) {
-      console.error('Error setting EMA state:', error);
-    }
+  public async getTopPages(
+    shop: string,
+    dimension: PresenceDimension = 'page_path',
+    limit: number = TOP_DIMENSION_DEFAULT_LIMIT
+  ): Promise<DimensionCount[]> {
+    return await this.presenceTracker.getTopDimension(shop, dimension, limit);
+  }
+
+  /**
+   * Shop'un canlı güncellemelerine abone olur (her tick ve presence değişikliğinde)
+   * @param shop - Mağaza kimliği
+   * @param listener - Her güncellemede çağrılır
+   * @returns Aboneliği sonlandıran fonksiyon
+   */
+  public subscribeToStream(shop: string, listener: ActiveUsersStreamListener): () => void {
+    return this.stream.subscribe(shop, listener);
+  }
+
+  /**
+   * Bu instance'ta üretilen presence event'lerini (online/offline, session
+   * başlangıç/bitiş) dinler. Diğer instance'ların event'leri için
+   * channel:presence:<shop> kanalı kullanılmalıdır.
+   * @param listener - Her event'te çağrılır
+   * @returns Dinlemeyi sonlandıran fonksiyon
+   */
+  public subscribeToPresenceEvents(listener: PresenceEventListener): () => void {
+    return this.presenceEvents.subscribe(listener);
+  }
+
+  /**
+   * Client'ın kaçırdığı güncellemeleri replay buffer'ından getirir
+   * @param shop - Mağaza kimliği
+   * @param lastEventId - Client'ın aldığı son event id (Last-Event-ID)
+   * @returns Sonraki event'ler; lastEventId artık buffer'da değilse null
+   */
+  public async replayStream(shop: string, lastEventId: string): Promise<ActiveUsersStreamEvent[] | null> {
+    return await this.stream.replay(shop, lastEventId);
+  }
+
+  /**
+   * Replay buffer'ındaki en son event id'sini getirir
+   * @param shop - Mağaza kimliği
+   * @returns Son event id veya null
+   */
+  public async getLatestStreamEventId(shop: string): Promise<string | null> {
+    return await this.stream.getLatestEventId(shop);
   }
 
   /**
@@ -239,35 +629,101 @@ export class ActiveUsersManager {
    */
   private async processTick(): Promise<void> {
     try {
-      // Tüm aktif shop'ları al
-      const shops = await this.getActiveShops();
-      
+      // Sadece lider instance EMA state'ini ilerletir
+      if (!(await this.tickLease.acquireOrRenew())) {
+        // Visitor sayıları her instance'ta tutulur; lider olmayanlar da temizler
+        this.heartbeatManager.prune(await this.presenceTracker.getActiveShops());
+        return;
+      }
+
+      // Süresi dolan presence'ları offline yap (heartbeat timeout'ları, shop TTL'ine göre)
+      await this.presenceTracker.sweepExpiredPresence(
+        async shop => (await this.shopSettings.getConfig(shop)).ttl_ms
+      );
+
+      // Registry'deki aktif shop'ları al
+      const shops = await this.presenceTracker.getActiveShops();
+      this.anomalyDetector.prune(shops);
+      this.heartbeatManager.prune(shops);
+
+      // Uzun tick'lerde lease süresi dolmasın; liderlik kaybedildiyse yeni
+      // lider devraldığı için tick yarıda bırakılır
       for (const shop of shops) {
+        if (!(await this.extendTickLease())) return;
         await this.processShopTick(shop);
       }
+
+      if (!(await this.extendTickLease())) return;
+
+      // Kapanan dakika bucket'larını database'e yaz
+      await this.flushActiveUsersMetrics();
+
+      // EMA state'lerini periyodik olarak checkpoint'le
+      if (Date.now() - this.lastCheckpointAt >= EMA_CHECKPOINT_INTERVAL_MS) {
+        await this.checkpointEMAStates();
+      }
     } catch (error) {
       console.error('Error during tick processing:', error);
     }
   }
 
+  /**
+   * Tick lease'ini tick'in ortasında uzatır
+   * @returns Bu instance hâlâ lider mi? (değilse tick yarıda bırakılmalı)
+   */
+  private async extendTickLease(): Promise<boolean> {
+    if (await this.tickLease.extend()) return true;
+
+    console.warn('ActiveUsersManager: Lost tick lease mid-tick, aborting tick');
+    return false;
+  }
+
   /**
    * Belirli bir shop için tick işlemini gerçekleştirir
    * @param shop - Mağaza kimliği
    */
   private async processShopTick(shop: string): Promise<void> {
     try {
-      const auRaw = await this.presenceTracker.getActiveUserCount(shop);
-      const emaState = await this.getEMAState(shop);
+      const now = Date.now();
+      const config = await this.shopSettings.getConfig(shop);
+      const counts = await this.presenceTracker.getPresenceCounts(shop, config.ttl_ms);
+      const auRaw = toActiveUserCount(counts);
+      const emaState = await this.emaStateStore.get(shop);
       
-      // EMA state'ini güncelle
-      const updatedEMAState = updateEMAState(emaState, auRaw, Date.now());
-      await this.setEMAState(shop, updatedEMAState);
+      // EMA state'ini shop'un yöntemi ve tau'larıyla güncelle (hiç state yoksa mevcut değerle başlat)
+      const updatedEMAState = emaState
+        ? updateEMAState(emaState, auRaw, now, config.ema_method, {
+            fast: config.ema_tau_fast,
+            slow: config.ema_tau_slow,
+          })
+        : createInitialEMAState(auRaw, now);
+      await this.emaStateStore.set(shop, updatedEMAState);
+      this.emaStates.set(shop, updatedEMAState);
       
       // Database'e kaydet (opsiyonel)
-      await this.saveActiveUsersMetrics(shop, auRaw, updatedEMAState);
+      await this.saveActiveUsersMetrics(
+        shop,
+        auRaw,
+        counts.tabs,
+        updatedEMAState,
+        Math.floor(config.ttl_ms / 1000)
+      );
       
       // Dashboard'a EMA update gönder
-      await this.publishEMAUpdate(shop, auRaw, updatedEMAState);
+      if (this.config.enable_redis_pubsub) {
+        await this.publishEMAUpdate(shop, counts, updatedEMAState);
+      }
+
+      // Spike / drop tespiti; cooldown dışındaki alert'ler saklanır ve webhook'a gönderilir
+      const alert = this.anomalyDetector.evaluate(
+        shop,
+        auRaw,
+        updatedEMAState,
+        config.anomaly_sensitivity
+      );
+      if (alert) {
+        await this.alertDispatcher.dispatch(alert, config);
+      }
       
     } catch (error) {
       console.error(`Error processing tick for shop ${shop}:`, error);
@@ -275,34 +731,79 @@ export class ActiveUsersManager {
   }
 
   /**
-   * Active Users metriklerini database'e kaydeder
+   * Son tick'lerde güncellenen EMA state'lerini active_users_state'e yazar
+   */
+  private async checkpointEMAStates(): Promise<void> {
+    this.lastCheckpointAt = Date.now();
+    if (this.emaStates.size === 0) return;
+
+    try {
+      await this.withRetry(() => this.emaStateStore.checkpoint(this.emaStates));
+      this.emaStates.clear();
+    } catch (error) {
+      console.error('Error checkpointing EMA states:', error);
+    }
+  }
+
+  /**
+   * Tick örneğini dakika bucket'ına ekler
    * @param shop - Mağaza kimliği
    * @param auRaw - Raw aktif kullanıcı sayısı
+   * @param totalTabs - Açık sekme sayısı
    * @param emaState - EMA state
+   * @param windowSeconds - Shop'un presence penceresi (saniye)
    */
-  private async saveActiveUsersMetrics(shop: string, auRaw: number, emaState: EMAState): Promise<void> {
+  private async saveActiveUsersMetrics(
+    shop: string,
+    auRaw: number,
+    totalTabs: number,
+    emaState: EMAState,
+    windowSeconds: number
+  ): Promise<void> {
+    if (!this.minutelyRecorder) return;
+
     try {
-      // Bu kısım production'da implement edilecek
-      // Supabase'e active_users_minutely tablosuna kayıt
-      console.log(`Saving metrics for shop ${shop}: au_raw=${auRaw}, ema_fast=${emaState.ema_fast}, ema_slow=${emaState.ema_slow}`);
+      await this.minutelyRecorder.recordSample(
+        shop,
+        auRaw,
+        totalTabs,
+        emaState,
+        emaState.last_ts,
+        windowSeconds
+      );
     } catch (error) {
       console.error('Error saving active users metrics:', error);
     }
   }
 
   /**
-   * Aktif shop'ları getirir
-   * @returns Aktif shop listesi
+   * Kapanan dakika bucket'larını active_users_minutely tablosuna yazar.
+   * Başarısız bucket'lar kuyrukta kalır ve sonraki tick'te tekrar denenir.
    */
-  private async getActiveShops(): Promise<string[]> {
+  private async flushActiveUsersMetrics(): Promise<void> {
+    const recorder = this.minutelyRecorder;
+    if (!recorder) return;
+
     try {
-      const pattern = `${REDIS_KEYS.PRESENCE_VISITORS}:*`;
-      const keys = await redis.getClient().keys(pattern);
-      
-      return keys.map((key: string) => key.replace(`${REDIS_KEYS.PRESENCE_VISITORS}:`, ''));
+      await this.withRetry(() => recorder.flush());
     } catch (error) {
-      console.error('Error getting active shops:', error);
-      return [];
+      console.error('Error flushing active users metrics:', error);
+    }
+  }
+
+  /**
+   * Database yazımını max_retry_attempts kadar artan beklemeyle tekrar dener
+   * @param operation - Denenecek işlem
+   * @returns İşlemin sonucu
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= this.config.max_retry_attempts) throw error;
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+      }
     }
   }
 
@@ -313,14 +814,28 @@ export class ActiveUsersManager {
   public async getStats(): Promise<{
     active_shops: number;
     active_heartbeats: number;
+    is_tick_leader: boolean;
+    stream_listeners: number;
     presence_stats: any;
   }> {
-    const shops = await this.getActiveShops();
+    const activeShops = await this.presenceTracker.getActiveShopCount();
     const heartbeatStats = this.heartbeatManager.getHeartbeatStats();
+
+    // Canlı heartbeat'i olan visitor'lar Redis'ten sayılır (tüm instance'lar); tick ile
+    // aynı sayıyı vermesi için her shop kendi TTL override'ı ile sayılır
+    const shops = await this.presenceTracker.getActiveShops();
+    const visitorCounts = await Promise.all(
+      shops.map(async shop => {
+        const config = await this.shopSettings.getConfig(shop);
+        return await this.presenceTracker.getActiveVisitorCount(shop, config.ttl_ms);
+      })
+    );
     
     return {
-      active_shops: shops.length,
-      active_heartbeats: heartbeatStats.active_heartbeats,
+      active_shops: activeShops,
+      active_heartbeats: visitorCounts.reduce((sum, count) => sum + count, 0),
+      is_tick_leader: this.tickLease.isLeader(),
+      stream_listeners: this.stream.getListenerCount(),
       presence_stats: heartbeatStats,
     };
   }
@@ -328,23 +843,69 @@ export class ActiveUsersManager {
   /**
    * Dashboard'a EMA update gönderir
    * @param shop - Mağaza kimliği
-   * @param auRaw - Raw aktif kullanıcı sayısı
+   * @param counts - Presence sayıları
    * @param emaState - EMA state
    */
-  private async publishEMAUpdate(shop: string, auRaw: number, emaState: EMAState): Promise<void> {
+  private async publishEMAUpdate(shop: string, counts: PresenceCounts, emaState: EMAState): Promise<void> {
     try {
       const channel = `${REDIS_KEYS.PUBSUB_CHANNEL}:${shop}`;
+      const update = {
+        ...this.toStreamResponse(shop, counts, emaState, Date.now()),
+        ...(await this.getStreamPages(shop)),
+      };
+      // Önce replay buffer'ına yaz ki SSE client'ları Last-Event-ID ile devam edebilsin
+      const eventId = await this.stream.append(shop, update);
       await redis.publish(channel, {
         type: 'ema_update',
-        shop,
-        au_raw: auRaw,
-        ema_fast: emaState.ema_fast,
-        ema_slow: emaState.ema_slow,
-        trend: emaState.ema_fast - emaState.ema_slow,
-        timestamp: Date.now(),
+        event_id: eventId,
+        ...update,
       });
     } catch (error) {
       console.error('Error publishing EMA update:', error);
     }
   }
+
+  /**
+   * Stream frame'lerine eklenen sayfa dağılımını getirir
+   * @param shop - Mağaza kimliği
+   * @returns En popüler sayfalar ve sayfa tipi dağılımı
+   */
+  private async getStreamPages(
+    shop: string
+  ): Promise<Pick<ActiveUsersStreamResponse, 'top_pages' | 'page_types'>> {
+    const [topPages, pageTypes] = await Promise.all([
+      this.presenceTracker.getTopDimension(shop, 'page_path', STREAM_TOP_PAGES_LIMIT),
+      this.presenceTracker.getTopDimension(shop, 'page_type', TOP_DIMENSION_DEFAULT_LIMIT),
+    ]);
+
+    return { top_pages: topPages, page_types: pageTypes };
+  }
+
+  /**
+   * Presence sayıları ve EMA state'inden stream response'u oluşturur
+   * @param shop - Mağaza kimliği
+   * @param counts - Presence sayıları
+   * @param emaState - EMA state
+   * @param timestamp - Response zamanı
+   * @returns Stream response
+   */
+  private toStreamResponse(
+    shop: string,
+    counts: PresenceCounts,
+    emaState: EMAState,
+    timestamp: number
+  ): ActiveUsersStreamResponse {
+    const emaResult = calculateEMAResult(emaState);
+
+    return {
+      shop,
+      timestamp,
+      au_raw: toActiveUserCount(counts),
+      au_engaged: counts.engaged,
+      au_ema_fast: emaResult.ema_fast,
+      au_ema_slow: emaResult.ema_slow,
+      trend: emaResult.trend,
+      trend_strength: emaResult.trend_strength,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+/**
+ * Redis Lease (Leader Election)
+ *
+ * Bu dosya birden fazla app instance'ı arasında tek bir lider seçmek için
+ * Redis tabanlı lease implementasyonunu içerir. Lease, instance id'si değer
+ * olarak yazılmış ve PX süreli bir key'dir:
+ *
+ * - acquire: SET NX PX (lease boşsa alınır)
+ * - renew:   Lua compare-and-pexpire (sadece sahibi uzatabilir)
+ * - release: Lua compare-and-delete (sadece sahibi bırakabilir)
+ *
+ * Lider ölürse lease süresi dolunca başka bir instance lease'i alır.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { redis } from '../../utils/redis';
+import { LEASE_RELEASE_SCRIPT, LEASE_RENEW_SCRIPT } from './scripts';
+
+export class RedisLease {
+  private readonly key: string;
+  private readonly ttlMs: number;
+  private readonly ownerId: string;
+  private held = false;
+
+  /**
+   * @param key - Lease key'i
+   * @param ttlMs - Lease süresi (ms)
+   * @param ownerId - Instance kimliği (varsayılan: rastgele uuid)
+   */
+  constructor(key: string, ttlMs: number, ownerId: string = uuidv4()) {
+    this.key = key;
+    this.ttlMs = ttlMs;
+    this.ownerId = ownerId;
+  }
+
+  /**
+   * Lease'i alır veya elde tutuluyorsa uzatır. Her tick'te çağrılır.
+   * @returns Bu instance lider mi?
+   */
+  public async acquireOrRenew(): Promise<boolean> {
+    try {
+      if (this.held && (await this.renew())) {
+        return true;
+      }
+
+      const result = await redis.getClient().set(this.key, this.ownerId, 'PX', this.ttlMs, 'NX');
+      this.setHeld(result === 'OK');
+    } catch (error) {
+      console.error(`Error acquiring lease ${this.key}:`, error);
+      // Redis'e ulaşılamıyorsa liderlik varsayılmaz
+      this.setHeld(false);
+    }
+
+    return this.held;
+  }
+
+  /**
+   * Elde tutulan lease'i uzatır; lease alınmaya çalışılmaz. Uzun süren
+   * işlerin ortasında liderliğin hâlâ bu instance'ta olduğunu doğrular.
+   * @returns Lease hâlâ bu instance'ta mı?
+   */
+  public async extend(): Promise<boolean> {
+    if (!this.held) return false;
+
+    try {
+      this.setHeld(await this.renew());
+    } catch (error) {
+      console.error(`Error renewing lease ${this.key}:`, error);
+      this.setHeld(false);
+    }
+
+    return this.held;
+  }
+
+  /**
+   * Lease'i bırakır (graceful shutdown'da failover'ı hızlandırır)
+   */
+  public async release(): Promise<void> {
+    if (!this.held) return;
+
+    try {
+      await redis.evalScript(LEASE_RELEASE_SCRIPT, [this.key], [this.ownerId]);
+    } catch (error) {
+      console.error(`Error releasing lease ${this.key}:`, error);
+    } finally {
+      // Bilinçli bırakma, liderlik kaybı olarak loglanmaz
+      this.held = false;
+    }
+  }
+
+  /**
+   * Bu instance lease'e sahip mi?
+   * @returns Lider mi?
+   */
+  public isLeader(): boolean {
+    return this.held;
+  }
+
+  /**
+   * Instance kimliğini getirir
+   * @returns Owner id
+   */
+  public getOwnerId(): string {
+    return this.ownerId;
+  }
+
+  /**
+   * Lease'i uzatır
+   * @returns Uzatıldı mı?
+   */
+  private async renew(): Promise<boolean> {
+    const renewed = await redis.evalScript(
+      LEASE_RENEW_SCRIPT,
+      [this.key],
+      [this.ownerId, this.ttlMs]
+    );
+    return renewed === 1;
+  }
+
+  /**
+   * Liderlik durumunu günceller ve geçişleri loglar
+   * @param held - Lease elde mi?
+   */
+  private setHeld(held: boolean): void {
+    if (held !== this.held) {
+      console.log(`RedisLease: ${held ? 'Acquired' : 'Lost'} lease ${this.key} (${this.ownerId})`);
+    }
+    this.held = held;
+  }
+}
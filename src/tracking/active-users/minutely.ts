@@ -0,0 +1,188 @@
+/**
+ * Minutely Active Users Metrics
+ *
+ * Bu dosya tick örneklerini shop başına dakika bucket'larında toplar ve
+ * kapanan bucket'ları active_users_minutely tablosuna batch halinde yazar.
+ *
+ * - Örnekler Redis'te aggregate edilir (presence:min:<shop>:<bucket_ms>),
+ *   böylece lider değişse bile bucket kaybolmaz.
+ * - Kapanan bucket'lar presence:min:pending ZSET'inden okunur ve
+ *   (shop, bucket_ts) anahtarıyla upsert edilir. Yazma başarısız olursa
+ *   bucket kuyrukta kalır ve sonraki tick'te tekrar denenir; upsert
+ *   idempotent olduğu için tekrar yazmak güvenlidir.
+ * - Upsert satırı (shop, bucket_ts) ile tamamen değiştirir. Bu yüzden bucket
+ *   ancak kapandıktan flushDelayMs sonra yazılır ve yazılmış olabilecek bir
+ *   bucket'a gelen geç örnekler atılır; aksi halde yeniden oluşan kısmi
+ *   bucket tam satırın üzerine yazılırdı.
+ */
+
+import { DatabaseManager } from '../../database/database-manager';
+import { redis } from '../../utils/redis';
+import { ActiveUsersMinutelyRow, EMAState } from './types';
+import {
+  REDIS_KEYS,
+  TTL_MS,
+  TICK_MS,
+  MINUTE_BUCKET_MS,
+  MINUTE_BUCKET_TTL_MS,
+  MINUTELY_FLUSH_BATCH_SIZE,
+} from './constants';
+import { MINUTE_SAMPLE_SCRIPT } from './scripts';
+
+export class MinutelyMetricsRecorder {
+  private dbManager: DatabaseManager;
+  private flushDelayMs: number;
+
+  /**
+   * @param dbManager - Database manager
+   * @param flushDelayMs - Bucket kapandıktan sonra yazılmadan önce beklenecek süre (ms)
+   */
+  constructor(dbManager: DatabaseManager, flushDelayMs: number = TICK_MS) {
+    this.dbManager = dbManager;
+    this.flushDelayMs = flushDelayMs;
+  }
+
+  /**
+   * Tick örneğini dakika bucket'ına ekler
+   * @param shop - Mağaza kimliği
+   * @param auRaw - Raw aktif kullanıcı sayısı
+   * @param totalTabs - Toplam açık tab sayısı
+   * @param emaState - Güncel EMA state
+   * @param timestamp - Örnek zamanı (ms)
+   * @param windowSeconds - Shop'un presence penceresi (saniye)
+   */
+  public async recordSample(
+    shop: string,
+    auRaw: number,
+    totalTabs: number,
+    emaState: EMAState,
+    timestamp: number = Date.now(),
+    windowSeconds: number = Math.floor(TTL_MS / 1000)
+  ): Promise<void> {
+    const bucketMs = getMinuteBucket(timestamp);
+
+    // Bucket flush edilmiş olabilir; yeniden oluşturulursa kısmi satır tam satırı ezer
+    if (bucketMs < this.getFlushableBefore(Date.now())) {
+      console.warn(`Dropping late active users sample for shop ${shop} (bucket ${bucketMs})`);
+      return;
+    }
+
+    await redis.evalScript(
+      MINUTE_SAMPLE_SCRIPT,
+      [`${REDIS_KEYS.MINUTE_BUCKET}:${shop}:${bucketMs}`, REDIS_KEYS.MINUTE_PENDING],
+      [
+        auRaw,
+        totalTabs,
+        emaState.ema_fast,
+        emaState.ema_slow,
+        timestamp,
+        bucketMs,
+        `${shop}|${bucketMs}`,
+        MINUTE_BUCKET_TTL_MS,
+        windowSeconds,
+      ]
+    );
+  }
+
+  /**
+   * Kapanmış dakika bucket'larını veritabanına yazar
+   * @param now - Şu anki zaman (ms); en az flushDelayMs önce kapanmış bucket'lar yazılır
+   * @returns Yazılan satır sayısı
+   */
+  public async flush(now: number = Date.now()): Promise<number> {
+    const client = redis.getClient();
+    const openBucket = this.getFlushableBefore(now);
+    let written = 0;
+    let members: string[];
+
+    do {
+      members = await client.zrangebyscore(
+        REDIS_KEYS.MINUTE_PENDING,
+        '-inf',
+        `(${openBucket}`,
+        'LIMIT',
+        0,
+        MINUTELY_FLUSH_BATCH_SIZE
+      );
+      if (members.length === 0) break;
+
+      const keys = members.map(member => this.bucketKey(member));
+      const pipeline = client.pipeline();
+      keys.forEach(key => pipeline.hgetall(key));
+      const results = (await pipeline.exec()) ?? [];
+
+      const rows: ActiveUsersMinutelyRow[] = [];
+      members.forEach((member, index) => {
+        const data = results[index]?.[1] as Record<string, string> | undefined;
+        const row = data ? this.toRow(member, data) : null;
+        if (row) rows.push(row);
+      });
+
+      if (rows.length > 0) {
+        await this.dbManager.getClickHouse().upsertActiveUsersMinutely(rows);
+        written += rows.length;
+      }
+
+      // Sadece yazma başarılı olduysa kuyruktan çıkar
+      await client
+        .multi()
+        .zrem(REDIS_KEYS.MINUTE_PENDING, ...members)
+        .del(...keys)
+        .exec();
+    } while (members.length === MINUTELY_FLUSH_BATCH_SIZE);
+
+    return written;
+  }
+
+  /**
+   * Bu başlangıçtan önceki bucket'lar en az flushDelayMs önce kapanmıştır
+   * @param now - Şu anki zaman (ms)
+   * @returns Yazılabilir bucket'ların üst sınırı (hariç, ms)
+   */
+  private getFlushableBefore(now: number): number {
+    return getMinuteBucket(now - this.flushDelayMs);
+  }
+
+  /**
+   * Pending member'ından bucket key'ini üretir
+   * @param member - <shop>|<bucket_ms>
+   * @returns Bucket HASH key'i
+   */
+  private bucketKey(member: string): string {
+    const [shop, bucketMs] = member.split('|');
+    return `${REDIS_KEYS.MINUTE_BUCKET}:${shop}:${bucketMs}`;
+  }
+
+  /**
+   * Bucket aggregate'ini tablo satırına çevirir
+   * @param member - <shop>|<bucket_ms>
+   * @param data - Bucket HASH içeriği
+   * @returns Satır veya (boş/süresi dolmuş bucket için) null
+   */
+  private toRow(member: string, data: Record<string, string>): ActiveUsersMinutelyRow | null {
+    const [shop, bucketMs] = member.split('|');
+    const samples = parseInt(data['samples'] || '0');
+    if (!shop || !bucketMs || samples === 0) return null;
+
+    return {
+      shop,
+      bucket_ts: new Date(Number(bucketMs)).toISOString(),
+      au_raw: Math.round(parseFloat(data['sum_au_raw'] || '0') / samples),
+      au_raw_max: parseInt(data['max_au_raw'] || '0'),
+      total_tabs: Math.round(parseFloat(data['sum_total_tabs'] || '0') / samples),
+      au_ema_fast: parseFloat(data['ema_fast'] || '0'),
+      au_ema_slow: parseFloat(data['ema_slow'] || '0'),
+      window_seconds: parseInt(data['window_seconds'] || String(Math.floor(TTL_MS / 1000))),
+      created_at: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Zamanın ait olduğu dakika bucket'ının başlangıcını hesaplar
+ * @param timestamp - Zaman (ms)
+ * @returns Bucket başlangıcı (ms)
+ */
+export function getMinuteBucket(timestamp: number): number {
+  return Math.floor(timestamp / MINUTE_BUCKET_MS) * MINUTE_BUCKET_MS;
+}
@@ -3,119 +3,248 @@
  * 
  * Bu dosya Active Users tracking için presence tracking logic'ini implement eder.
  * Redis ZSET operations kullanarak visitor ve session tracking yapar.
- * ZCOUNT ile aktif kullanıcı sayımı ve ZREMRANGEBYSCORE ile cleanup işlemleri.
+ *
+ * Veri modeli:
+ * - presence:v:<shop>  ZSET  member = visitor_id, score = last seen (ms)
+ * - presence:vm:<shop> HASH  field = visitor_id, value = RedisPresenceData (JSON)
+ * - presence:s:<shop>  ZSET  member = session_id, score = last seen (ms)
+ * - presence:sm:<shop> HASH  field = session_id, value = RedisPresenceData (JSON)
+ * - presence:t:<shop>  ZSET  member = <visitor_id>|<tab_id>, score = last seen (ms)
+ * - presence:vt:<shop>:<visitor_id> ZSET  member = tab_id, score = last seen (ms)
+ * - presence:dim:<shop>:<dimension> ZSET  member = değer, score = online visitor sayısı
+ * - presence:vd:<shop> HASH  field = <visitor_id>|<dimension>, value = değer
+ *
+ * Seyrek beat gönderen sekmeler (adaptive heartbeat) için skorlar ileri
+ * kaydırılır: score = last seen + (presence TTL - shop TTL). Böylece sayım ve
+ * sweep tek bir cutoff (now - shop TTL) ile çalışırken her üye kendi
+ * presence TTL'i boyunca canlı kalır. Gerçek last seen metadata'daki
+ * timestamp'tir.
+ *
+ * Bir visitor birden fazla sekmede açık olabilir; visitor ancak son sekmesi
+ * kapandığında (veya timeout olduğunda) offline olur.
+ *
+ * Heartbeat upsert'i, sekme kapanışı ve cleanup Lua script'leri ile atomik yapılır
+ * (ZSET + HASH birlikte); aktif kullanıcı sayımı ZCOUNT ile yapılır.
+ * Online/offline ve session geçişleri script dönüşlerinden tespit edilip
+ * PresenceEventBus üzerinden yayınlanır (bkz. events.ts).
  */
 
 import { redis } from '../../utils/redis';
-import { PresenceData, RedisPresenceData } from './types';
-import { REDIS_KEYS, TTL_MS, PRESENCE_CLEANUP_INTERVAL_MS } from './constants';
+import {
+  ActiveUsersConfig,
+  DimensionCount,
+  HeartbeatUpsertResult,
+  PresenceCounts,
+  PresenceData,
+  PresenceDimension,
+  PresenceEndReason,
+  PresenceEventData,
+  RedisPresenceData,
+  TabCloseResult,
+} from './types';
+import { REDIS_KEYS, DEFAULT_TAB_ID, PRESENCE_KEY_EXPIRY_GRACE_TICKS } from './constants';
+import { DEFAULT_ACTIVE_USERS_CONFIG } from './config';
+import {
+  CLEANUP_EXPIRED_SCRIPT,
+  HEARTBEAT_UPSERT_SCRIPT,
+  TAB_CLOSE_SCRIPT,
+  VISITOR_OFFLINE_SCRIPT,
+} from './scripts';
+import {
+  PRESENCE_DIMENSIONS,
+  getDimensionKey,
+  getDimensionKeys,
+  getDimensionValues,
+} from './dimensions';
+import { ActiveShopRegistry } from './registry';
+import { PresenceEventBus } from './events';
 
 export class PresenceTracker {
-  private cleanupInterval: NodeJS.Timeout | undefined;
-
-  constructor() {
-    // Constructor'da redis'i parametre olarak almıyoruz, global instance kullanıyoruz
-  }
-
-  /**
-   * Presence tracking'i başlatır
-   */
-  public async start(): Promise<void> {
-    // Cleanup interval'ı başlat
-    this.cleanupInterval = setInterval(
-      () => this.cleanupExpiredPresence(),
-      PRESENCE_CLEANUP_INTERVAL_MS
-    );
-  }
+  private shopRegistry: ActiveShopRegistry;
+  private config: ActiveUsersConfig;
+  private events: PresenceEventBus;
 
   /**
-   * Presence tracking'i durdurur
+   * @param config - Active users konfigürasyonu (TTL, batch size, pubsub)
+   * @param events - Presence event'lerinin yayınlanacağı bus (verilmezse sadece Redis'e publish edilir)
    */
-  public async stop(): Promise<void> {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = undefined;
-    }
+  constructor(config: ActiveUsersConfig = DEFAULT_ACTIVE_USERS_CONFIG, events?: PresenceEventBus) {
+    // Constructor'da redis'i parametre olarak almıyoruz, global instance kullanıyoruz
+    this.shopRegistry = new ActiveShopRegistry();
+    this.config = config;
+    this.events = events ?? new PresenceEventBus(config);
   }
 
   /**
-   * Visitor presence'ını günceller
+   * Heartbeat'i tek bir Lua script ile atomik olarak işler:
+   * visitor + session + sekme presence, metadata, boyut sayaçları, expiry ve
+   * shop registry.
+   * Visitor online olduysa veya session başladıysa PresenceEvent tam bir kez
+   * yayınlanır.
    * @param presenceData - Presence verisi
+   * @param ttlMs - Shop'un presence TTL'i (ms)
+   * @param presenceTtlMs - Bu beat'in presence'ı canlı tutacağı süre (ms, en az ttlMs)
+   * @returns Online / session başlangıç geçişleri ve shop'un visitor sayısı
    */
-  public async updateVisitorPresence(presenceData: PresenceData): Promise<void> {
-    const { shop, visitor_id, timestamp, page_path, user_agent, ip_hash } = presenceData;
-    
-    console.log('PresenceTracker: updateVisitorPresence called', { shop, visitor_id, timestamp });
-    
-    const key = `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`;
-    
-    // Önce eski entry'leri sil (visitor_id'ye göre)
-    await this.removeVisitorEntries(key, visitor_id);
-    
-    // Yeni entry'yi ekle
-    const member = JSON.stringify({
+  public async recordHeartbeat(
+    presenceData: PresenceData,
+    ttlMs: number = this.config.ttl_ms,
+    presenceTtlMs: number = ttlMs
+  ): Promise<HeartbeatUpsertResult> {
+    const { shop, visitor_id, session_id, timestamp, page_path, user_agent, ip_hash, country, referrer } =
+      presenceData;
+    const tab_id = presenceData.tab_id ?? DEFAULT_TAB_ID;
+
+    const meta = JSON.stringify({
       visitor_id,
+      session_id,
+      tab_id,
       timestamp,
       page_path,
       user_agent,
       ip_hash,
-    } as RedisPresenceData);
+      country,
+      referrer,
+    } satisfies RedisPresenceData);
+    const dimensionValues = getDimensionValues(presenceData);
+
+    const [visitorOnline, sessionStarted, shopVisitors] = (await redis.evalScript(
+      HEARTBEAT_UPSERT_SCRIPT,
+      [
+        `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_VISITOR_META}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_SESSION_META}:${shop}`,
+        REDIS_KEYS.ACTIVE_SHOPS,
+        `${REDIS_KEYS.PRESENCE_TABS}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_VISITOR_TABS}:${shop}:${visitor_id}`,
+        ...getDimensionKeys(shop),
+      ],
+      [
+        visitor_id,
+        session_id ?? '',
+        timestamp,
+        ttlMs,
+        meta,
+        meta,
+        shop,
+        tab_id,
+        presenceTtlMs,
+        this.config.tick_interval_ms * PRESENCE_KEY_EXPIRY_GRACE_TICKS,
+        ...PRESENCE_DIMENSIONS,
+        ...PRESENCE_DIMENSIONS.map(dimension => dimensionValues[dimension]),
+      ]
+    )) as [number, number, number];
+
+    const result: HeartbeatUpsertResult = {
+      visitor_online: visitorOnline === 1,
+      session_started: sessionStarted === 1,
+      shop_visitors: Number(shopVisitors) || 0,
+    };
 
-    console.log('PresenceTracker: Adding to Redis', { key, member, score: timestamp });
+    if (result.visitor_online) {
+      await this.events.emit({
+        type: 'visitor_online',
+        shop,
+        visitor_id,
+        session_id,
+        timestamp,
+        data: { page_path, tab_id, started_at: timestamp },
+      });
+    }
 
-    await redis.getClient().zadd(key, timestamp, member);
-    
-    console.log('PresenceTracker: Successfully added to Redis');
-    
-    // TTL ayarla
-    await redis.getClient().expire(key, Math.ceil(TTL_MS / 1000));
+    if (result.session_started) {
+      await this.events.emit({
+        type: 'session_start',
+        shop,
+        visitor_id,
+        session_id,
+        timestamp,
+        data: { page_path, tab_id, started_at: timestamp },
+      });
+    }
 
-    // Dashboard'a real-time update gönder
-    await this.publishPresenceUpdate(shop, {
-      type: 'visitor_update',
-      visitor_id,
-      timestamp,
-      page_path,
-      is_online: true,
-    });
+    return result;
   }
 
   /**
-   * Session presence'ını günceller
-   * @param presenceData - Presence verisi
+   * Sekme kapanışını (page unload) işler. Visitor'ın başka açık sekmesi
+   * varsa online kalır; son sekme kapandıysa visitor ve session offline
+   * olur ve event'leri publish edilir.
+   * @param tab - Kapanan sekme
+   * @param ttlMs - Shop'un presence TTL'i (ms), daha eski sekmeler kapanmış sayılır
+   * @returns Kalan sekme sayısı ve offline geçişleri
    */
-  public async updateSessionPresence(presenceData: PresenceData): Promise<void> {
-    const { shop, session_id, timestamp, page_path, user_agent, ip_hash } = presenceData;
-    
-    if (!session_id) return;
+  public async closeTab(
+    tab: { shop: string; visitor_id: string; session_id?: string | undefined; tab_id?: string | undefined },
+    ttlMs: number = this.config.ttl_ms
+  ): Promise<TabCloseResult> {
+    const { shop, visitor_id, session_id } = tab;
+    const tab_id = tab.tab_id ?? DEFAULT_TAB_ID;
+    const now = Date.now();
 
-    const key = `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`;
-    
-    // Önce eski entry'leri sil (session_id'ye göre)
-    await this.removeSessionEntries(key, session_id);
-    
-    // Yeni entry'yi ekle
-    const member = JSON.stringify({
-      session_id,
-      timestamp,
-      page_path,
-      user_agent,
-      ip_hash,
-    } as RedisPresenceData);
+    const [remainingTabs, visitorOffline, sessionEnded, visitorMeta, sessionMeta] =
+      (await redis.evalScript(
+        TAB_CLOSE_SCRIPT,
+        [
+          `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_VISITOR_META}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_SESSION_META}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_TABS}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_VISITOR_TABS}:${shop}:${visitor_id}`,
+          ...getDimensionKeys(shop),
+        ],
+        [visitor_id, session_id ?? '', tab_id, now - ttlMs, ...PRESENCE_DIMENSIONS]
+      )) as [number, number, number, string, string];
+
+    const result: TabCloseResult = {
+      remaining_tabs: remainingTabs,
+      visitor_offline: visitorOffline === 1,
+      session_ended: sessionEnded === 1,
+    };
 
-    await redis.getClient().zadd(key, timestamp, member);
-    
-    // TTL ayarla
-    await redis.getClient().expire(key, Math.ceil(TTL_MS / 1000));
+    if (result.visitor_offline) {
+      await this.events.emit({
+        type: 'visitor_offline',
+        shop,
+        visitor_id,
+        session_id,
+        timestamp: now,
+        data: { ...toEndEventData('unload', this.parseMeta(visitorMeta), now), tab_id },
+      });
+    }
 
-    // Dashboard'a real-time update gönder
-    await this.publishPresenceUpdate(shop, {
-      type: 'session_update',
-      session_id,
-      timestamp,
-      page_path,
-      is_online: true,
-    });
+    if (result.session_ended) {
+      await this.events.emit({
+        type: 'session_end',
+        shop,
+        visitor_id,
+        session_id,
+        timestamp: now,
+        data: { ...toEndEventData('unload', this.parseMeta(sessionMeta), now), tab_id },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Visitor'ın presence metadata'sını getirir
+   * @param shop - Mağaza kimliği
+   * @param visitor_id - Visitor kimliği
+   * @returns Presence metadata veya null
+   */
+  public async getVisitorPresence(shop: string, visitor_id: string): Promise<RedisPresenceData | null> {
+    const metaKey = `${REDIS_KEYS.PRESENCE_VISITOR_META}:${shop}`;
+
+    try {
+      const raw = await redis.getClient().hget(metaKey, visitor_id);
+      return this.parseMeta(raw ?? undefined);
+    } catch (error) {
+      console.error('Error getting visitor presence:', error);
+      return null;
+    }
   }
 
   /**
@@ -124,7 +253,7 @@ export class PresenceTracker {
    * @param timeWindow - Zaman penceresi (ms)
    * @returns Aktif visitor sayısı
    */
-  public async getActiveVisitorCount(shop: string, timeWindow: number = TTL_MS): Promise<number> {
+  public async getActiveVisitorCount(shop: string, timeWindow: number = this.config.ttl_ms): Promise<number> {
     const key = `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`;
     const now = Date.now();
     const cutoff = now - timeWindow;
@@ -144,7 +273,7 @@ export class PresenceTracker {
    * @param timeWindow - Zaman penceresi (ms)
    * @returns Aktif session sayısı
    */
-  public async getActiveSessionCount(shop: string, timeWindow: number = TTL_MS): Promise<number> {
+  public async getActiveSessionCount(shop: string, timeWindow: number = this.config.ttl_ms): Promise<number> {
     const key = `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`;
     const now = Date.now();
     const cutoff = now - timeWindow;
@@ -158,21 +287,109 @@ export class PresenceTracker {
     }
   }
 
+  /**
+   * Açık sekme sayısını hesaplar
+   * @param shop - Mağaza kimliği
+   * @param timeWindow - Zaman penceresi (ms)
+   * @returns Açık sekme sayısı
+   */
+  public async getActiveTabCount(shop: string, timeWindow: number = this.config.ttl_ms): Promise<number> {
+    const key = `${REDIS_KEYS.PRESENCE_TABS}:${shop}`;
+    const cutoff = Date.now() - timeWindow;
+
+    try {
+      const count = await redis.getClient().zcount(key, cutoff, '+inf');
+      return count || 0;
+    } catch (error) {
+      console.error('Error getting active tab count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Eşzamanlı visitor, session, sekme ve etkileşim durumu sayılarını tek
+   * pipeline ile hesaplar. Durum sayaçları sweep'e kadar süresi dolmuş
+   * visitor'ları da içerebileceğinden visitor sayısıyla sınırlanır.
+   * @param shop - Mağaza kimliği
+   * @param timeWindow - Zaman penceresi (ms)
+   * @returns Presence sayıları
+   */
+  public async getPresenceCounts(
+    shop: string,
+    timeWindow: number = this.config.ttl_ms
+  ): Promise<PresenceCounts> {
+    const cutoff = Date.now() - timeWindow;
+    const engagementKey = getDimensionKey(shop, 'engagement');
+
+    try {
+      const results = await redis
+        .getClient()
+        .pipeline()
+        .zcount(`${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`, cutoff, '+inf')
+        .zcount(`${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`, cutoff, '+inf')
+        .zcount(`${REDIS_KEYS.PRESENCE_TABS}:${shop}`, cutoff, '+inf')
+        .zscore(engagementKey, 'active')
+        .zscore(engagementKey, 'idle')
+        .zscore(engagementKey, 'hidden')
+        .exec();
+
+      const [visitors = 0, sessions = 0, tabs = 0, engaged = 0, idle = 0, hidden = 0] = (
+        results ?? []
+      ).map(([error, count]) => (error ? 0 : Number(count) || 0));
+
+      return {
+        visitors,
+        sessions,
+        tabs,
+        engaged: Math.min(engaged, visitors),
+        idle: Math.min(idle, visitors),
+        hidden: Math.min(hidden, visitors),
+      };
+    } catch (error) {
+      console.error('Error getting presence counts:', error);
+      return { visitors: 0, sessions: 0, tabs: 0, engaged: 0, idle: 0, hidden: 0 };
+    }
+  }
+
   /**
    * Aktif kullanıcı sayısını hesaplar (visitor + session)
    * @param shop - Mağaza kimliği
    * @param timeWindow - Zaman penceresi (ms)
    * @returns Aktif kullanıcı sayısı
    */
-  public async getActiveUserCount(shop: string, timeWindow: number = TTL_MS): Promise<number> {
-    const [visitorCount, sessionCount] = await Promise.all([
-      this.getActiveVisitorCount(shop, timeWindow),
-      this.getActiveSessionCount(shop, timeWindow),
-    ]);
+  public async getActiveUserCount(shop: string, timeWindow: number = this.config.ttl_ms): Promise<number> {
+    return toActiveUserCount(await this.getPresenceCounts(shop, timeWindow));
+  }
+
+  /**
+   * Boyutun en çok online visitor'a sahip değerlerini getirir
+   * @param shop - Mağaza kimliği
+   * @param dimension - Boyut (page_path, page_type)
+   * @param limit - Maksimum değer sayısı
+   * @returns Visitor sayısına göre azalan sırada değerler
+   */
+  public async getTopDimension(
+    shop: string,
+    dimension: PresenceDimension,
+    limit: number
+  ): Promise<DimensionCount[]> {
+    try {
+      const members = await redis
+        .getClient()
+        .zrevrange(getDimensionKey(shop, dimension), 0, limit - 1, 'WITHSCORES');
 
-    // Visitor ve session sayılarının maksimumunu al
-    // (aynı kişi hem visitor hem session olabilir)
-    return Math.max(visitorCount, sessionCount);
+      const counts: DimensionCount[] = [];
+      for (let i = 0; i < members.length; i += 2) {
+        const visitors = Number(members[i + 1]);
+        if (visitors > 0) {
+          counts.push({ value: members[i] as string, visitors });
+        }
+      }
+      return counts;
+    } catch (error) {
+      console.error(`Error getting top ${dimension} values:`, error);
+      return [];
+    }
   }
 
   /**
@@ -181,48 +398,30 @@ export class PresenceTracker {
    * @param visitor_id - Visitor kimliği
    */
   public async setVisitorOffline(shop: string, visitor_id: string): Promise<void> {
-    const key = `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`;
-    
     try {
-      // Visitor'ın tüm presence kayıtlarını sil
-      const members = await redis.getClient().zrangebyscore(key, '-inf', '+inf', 'WITHSCORES');
-      
-      for (let i = 0; i < members.length; i += 2) {
-        const member = members[i] as string;
-        
-        try {
-          // Member'ı string olarak kontrol et
-          let data: RedisPresenceData;
-          if (typeof member === 'string') {
-            data = JSON.parse(member) as RedisPresenceData;
-          } else {
-            // Eğer object ise, string'e çevir
-            data = JSON.parse(JSON.stringify(member)) as RedisPresenceData;
-          }
-          
-          if (data.visitor_id === visitor_id) {
-            await redis.getClient().zrem(key, member);
-          }
-        } catch (parseError) {
-          console.warn('Error parsing member for removal:', parseError, 'Member:', member);
-          // Parse edilemeyen member'ı da sil
-          try {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-            }
-          } catch (removalError) {
-            console.warn('Error removing invalid member:', removalError);
-          }
-        }
+      const [removed, rawMeta] = (await redis.evalScript(
+        VISITOR_OFFLINE_SCRIPT,
+        [
+          `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`,
+          `${REDIS_KEYS.PRESENCE_VISITOR_META}:${shop}`,
+          ...getDimensionKeys(shop),
+        ],
+        [visitor_id, ...PRESENCE_DIMENSIONS]
+      )) as [number, string];
+
+      // Sadece gerçekten silindiyse (zaten offline değilse) event gönder
+      if (removed === 1) {
+        const now = Date.now();
+        const meta = this.parseMeta(rawMeta);
+        await this.events.emit({
+          type: 'visitor_offline',
+          shop,
+          visitor_id,
+          session_id: meta?.session_id,
+          timestamp: now,
+          data: toEndEventData('manual', meta, now),
+        });
       }
-
-      // Dashboard'a offline update gönder
-      await this.publishPresenceUpdate(shop, {
-        type: 'visitor_offline',
-        visitor_id,
-        timestamp: Date.now(),
-        is_online: false,
-      });
     } catch (error) {
       console.error('Error setting visitor offline:', error);
     }
@@ -231,111 +430,197 @@ export class PresenceTracker {
   /**
    * Session'ı offline yapar
    * @param shop - Mağaza kimliği
+   * @param visitor_id - Visitor kimliği
    * @param session_id - Session kimliği
    */
-  public async setSessionOffline(shop: string, session_id: string): Promise<void> {
+  public async setSessionOffline(shop: string, visitor_id: string, session_id: string): Promise<void> {
     const key = `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`;
+    const metaKey = `${REDIS_KEYS.PRESENCE_SESSION_META}:${shop}`;
     
     try {
-      // Session'ın tüm presence kayıtlarını sil
-      const members = await redis.getClient().zrangebyscore(key, '-inf', '+inf', 'WITHSCORES');
-      
-      for (let i = 0; i < members.length; i += 2) {
-        const member = members[i] as string;
-        
-        try {
-          // Member'ı string olarak kontrol et
-          let data: RedisPresenceData;
-          if (typeof member === 'string') {
-            data = JSON.parse(member) as RedisPresenceData;
-          } else {
-            // Eğer object ise, string'e çevir
-            data = JSON.parse(JSON.stringify(member)) as RedisPresenceData;
-          }
-          
-          if (data.session_id === session_id) {
-            await redis.getClient().zrem(key, member);
-          }
-        } catch (parseError) {
-          console.warn('Error parsing member for removal:', parseError, 'Member:', member);
-          // Parse edilemeyen member'ı da sil
-          try {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-            }
-          } catch (removalError) {
-            console.warn('Error removing invalid member:', removalError);
-          }
-        }
+      const results = await redis
+        .getClient()
+        .multi()
+        .hget(metaKey, session_id)
+        .zrem(key, session_id)
+        .hdel(metaKey, session_id)
+        .exec();
+
+      if (results?.[1]?.[1] === 1) {
+        const now = Date.now();
+        const meta = this.parseMeta((results[0]?.[1] as string | null) ?? undefined);
+        await this.events.emit({
+          type: 'session_end',
+          shop,
+          visitor_id,
+          session_id,
+          timestamp: now,
+          data: toEndEventData('manual', meta, now),
+        });
       }
-
-      // Dashboard'a offline update gönder
-      await this.publishPresenceUpdate(shop, {
-        type: 'session_offline',
-        session_id,
-        timestamp: Date.now(),
-        is_online: false,
-      });
     } catch (error) {
       console.error('Error setting session offline:', error);
     }
   }
 
   /**
-   * Süresi dolmuş presence kayıtlarını temizler
+   * Süresi dolmuş presence kayıtlarını temizler ve offline event'lerini üretir.
+   * Heartbeat timeout'ları Redis'teki last-seen skorlarından tespit edilir;
+   * bu yüzden beat'i hangi instance almış olursa olsun offline geçişi
+   * yakalanır. Sadece tek bir worker (tick lideri) tarafından çağrılmalıdır.
+   * @param getTtl - Shop'un presence TTL'ini döndürür (varsayılan: config.ttl_ms)
+   * @returns Offline olan visitor sayısı
    */
-  private async cleanupExpiredPresence(): Promise<void> {
-    try {
-      const now = Date.now();
-      const cutoff = now - TTL_MS;
+  public async sweepExpiredPresence(
+    getTtl: (shop: string) => Promise<number> = async () => this.config.ttl_ms
+  ): Promise<number> {
+    let offlineVisitors = 0;
 
-      // Tüm shop'ları al
+    try {
+      // Registry'deki shop'ları al
       const shops = await this.getActiveShops();
-      
+
       for (const shop of shops) {
-        await this.cleanupShopPresence(shop, cutoff);
+        const cutoff = Date.now() - (await getTtl(shop));
+        offlineVisitors += await this.sweepShopPresence(shop, cutoff);
       }
+
+      // Retention süresini aşmış shop'ları registry'den çıkar
+      await this.shopRegistry.prune();
     } catch (error) {
-      console.error('Error during presence cleanup:', error);
+      console.error('Error during presence sweep:', error);
     }
+
+    return offlineVisitors;
   }
 
   /**
-   * Belirli bir shop'un presence kayıtlarını temizler
+   * Belirli bir shop'un süresi dolmuş presence kayıtlarını temizler
    * @param shop - Mağaza kimliği
    * @param cutoff - Kesim zamanı
+   * @returns Offline olan visitor sayısı
    */
-  private async cleanupShopPresence(shop: string, cutoff: number): Promise<void> {
-    const visitorKey = `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`;
-    const sessionKey = `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`;
-
+  private async sweepShopPresence(shop: string, cutoff: number): Promise<number> {
     try {
-      // Eski visitor kayıtlarını sil
-      await redis.getClient().zremrangebyscore(visitorKey, '-inf', cutoff);
-      
-      // Eski session kayıtlarını sil
-      await redis.getClient().zremrangebyscore(sessionKey, '-inf', cutoff);
+      // Eski visitor kayıtlarını (ZSET + metadata + boyut değerleri) sil
+      const visitors = await this.removeExpiredEntries(
+        `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_VISITOR_META}:${shop}`,
+        cutoff,
+        getDimensionKeys(shop)
+      );
+
+      // Eski session kayıtlarını (ZSET + metadata) sil
+      const sessions = await this.removeExpiredEntries(
+        `${REDIS_KEYS.PRESENCE_SESSIONS}:${shop}`,
+        `${REDIS_KEYS.PRESENCE_SESSION_META}:${shop}`,
+        cutoff
+      );
+
+      // Kapanmadan kaybolan sekmeleri sil (visitor sekme ZSET'leri TTL ile düşer)
+      await redis.getClient().zremrangebyscore(`${REDIS_KEYS.PRESENCE_TABS}:${shop}`, '-inf', cutoff);
+
+      const now = Date.now();
+
+      // Timeout'ta süre son heartbeat'e kadar sayılır
+      for (const { id, meta } of visitors) {
+        await this.events.emit({
+          type: 'visitor_offline',
+          shop,
+          visitor_id: id,
+          session_id: meta?.session_id,
+          timestamp: now,
+          data: toEndEventData('timeout', meta, meta?.timestamp),
+        });
+      }
+
+      for (const { id, meta } of sessions) {
+        if (!meta) continue;
+
+        await this.events.emit({
+          type: 'session_end',
+          shop,
+          visitor_id: meta.visitor_id,
+          session_id: id,
+          timestamp: now,
+          data: toEndEventData('timeout', meta, meta.timestamp),
+        });
+      }
+
+      return visitors.length;
     } catch (error) {
-      console.error(`Error cleaning up presence for shop ${shop}:`, error);
+      console.error(`Error sweeping presence for shop ${shop}:`, error);
+      return 0;
     }
   }
 
   /**
-   * Aktif shop'ları getirir
-   * @returns Aktif shop listesi
+   * Süresi dolmuş üyeleri batch'ler halinde siler
+   * @param key - Presence ZSET key'i
+   * @param metaKey - Metadata HASH key'i
+   * @param cutoff - Kesim zamanı
+   * @param dimensionKeys - Silinen üyelerin boyut değerleri de düşülecekse boyut key'leri
+   * @returns Silinen id'ler ve metadata'ları
    */
-  private async getActiveShops(): Promise<string[]> {
+  private async removeExpiredEntries(
+    key: string,
+    metaKey: string,
+    cutoff: number,
+    dimensionKeys: string[] = []
+  ): Promise<Array<{ id: string; meta: RedisPresenceData | null }>> {
+    const removed: Array<{ id: string; meta: RedisPresenceData | null }> = [];
+    const dimensions = dimensionKeys.length > 0 ? PRESENCE_DIMENSIONS : [];
+    let batch: string[];
+
+    do {
+      batch = (await redis.evalScript(
+        CLEANUP_EXPIRED_SCRIPT,
+        [key, metaKey, ...dimensionKeys],
+        [cutoff, this.config.batch_size, ...dimensions]
+      )) as string[];
+
+      for (let i = 0; i < batch.length; i += 2) {
+        removed.push({
+          id: batch[i] as string,
+          meta: this.parseMeta(batch[i + 1]),
+        });
+      }
+    } while (batch.length / 2 === this.config.batch_size);
+
+    return removed;
+  }
+
+  /**
+   * Metadata JSON'ını parse eder
+   * @param raw - Ham metadata
+   * @returns Presence metadata veya null
+   */
+  private parseMeta(raw: string | undefined): RedisPresenceData | null {
+    if (!raw) return null;
+
     try {
-      const pattern = `${REDIS_KEYS.PRESENCE_VISITORS}:*`;
-      const keys = await redis.getClient().keys(pattern);
-      
-      return keys.map((key: string) => key.replace(`${REDIS_KEYS.PRESENCE_VISITORS}:`, ''));
-    } catch (error) {
-      console.error('Error getting active shops:', error);
-      return [];
+      return JSON.parse(raw) as RedisPresenceData;
+    } catch {
+      return null;
     }
   }
 
+  /**
+   * Aktif shop'ları registry'den getirir
+   * @returns Aktif shop listesi
+   */
+  public async getActiveShops(): Promise<string[]> {
+    return await this.shopRegistry.getActiveShops();
+  }
+
+  /**
+   * Aktif shop sayısını registry'den getirir
+   * @returns Aktif shop sayısı
+   */
+  public async getActiveShopCount(): Promise<number> {
+    return await this.shopRegistry.getActiveShopCount();
+  }
+
   /**
    * Presence istatistiklerini getirir
    * @param shop - Mağaza kimliği
@@ -344,21 +629,24 @@ export class PresenceTracker {
   public async getPresenceStats(shop: string): Promise<{
     active_visitors: number;
     active_sessions: number;
+    active_tabs: number;
+    engaged_visitors: number;
     total_visitors: number;
     total_sessions: number;
     last_activity: number;
   }> {
-    const [activeVisitors, activeSessions, totalVisitors, totalSessions, lastActivity] = await Promise.all([
-      this.getActiveVisitorCount(shop),
-      this.getActiveSessionCount(shop),
+    const [counts, totalVisitors, totalSessions, lastActivity] = await Promise.all([
+      this.getPresenceCounts(shop),
       this.getTotalVisitorCount(shop),
       this.getTotalSessionCount(shop),
       this.getLastActivityTime(shop),
     ]);
 
     return {
-      active_visitors: activeVisitors,
-      active_sessions: activeSessions,
+      active_visitors: counts.visitors,
+      active_sessions: counts.sessions,
+      active_tabs: counts.tabs,
+      engaged_visitors: counts.engaged,
       total_visitors: totalVisitors,
       total_sessions: totalSessions,
       last_activity: lastActivity,
@@ -406,11 +694,11 @@ export class PresenceTracker {
     const key = `${REDIS_KEYS.PRESENCE_VISITORS}:${shop}`;
     
     try {
-      const members = await redis.getClient().zrangebyscore(key, '-inf', '+inf', 'WITHSCORES');
+      // En yüksek score'a sahip eleman (O(log n)); skorlar adaptive
+      // heartbeat'te ileri kaydırılmış olabilir
+      const members = await redis.getClient().zrange(key, -1, -1, 'WITHSCORES');
       if (members.length >= 2) {
-        // En son elemanı al (en yüksek score'a sahip)
-        const lastScore = parseFloat(members[members.length - 1] as string);
-        return lastScore;
+        return Math.min(parseFloat(members[1] as string), Date.now());
       }
       return 0;
     } catch (error) {
@@ -418,135 +706,40 @@ export class PresenceTracker {
       return 0;
     }
   }
+}
 
-  /**
-   * Visitor'ın eski entry'lerini siler
-   * @param key - Redis key
-   * @param visitor_id - Visitor kimliği
-   */
-  private async removeVisitorEntries(key: string, visitor_id: string): Promise<void> {
-    try {
-      const members = await redis.getClient().zrangebyscore(key, '-inf', '+inf', 'WITHSCORES');
-      
-      for (let i = 0; i < members.length; i += 2) {
-        const member = members[i];
-        
-        try {
-          let data: RedisPresenceData;
-          
-          // Member'ın tipini kontrol et
-          if (typeof member === 'string') {
-            // JSON string ise parse et
-            data = JSON.parse(member) as RedisPresenceData;
-          } else if (typeof member === 'object' && member !== null) {
-            // Object ise direkt kullan
-            data = member as RedisPresenceData;
-          } else {
-            console.warn('Unknown member type:', typeof member, member);
-            continue;
-          }
-          
-          if (data.visitor_id === visitor_id) {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-              console.log('PresenceTracker: Removed old visitor entry', { visitor_id, member });
-            }
-          }
-        } catch (parseError) {
-          console.warn('Error parsing member for removal:', parseError, 'Member:', member);
-          // Parse edilemeyen member'ı da sil
-          try {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-            }
-          } catch (removalError) {
-            console.warn('Error removing invalid member:', removalError);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error removing visitor entries:', error);
-    }
-  }
+/**
+ * Presence sayılarından aktif kullanıcı sayısını (au_raw) hesaplar.
+ * Visitor ve session sayılarının maksimumu alınır (aynı kişi hem visitor
+ * hem session olabilir); sekmeler kullanıcı sayısını artırmaz.
+ * @param counts - Presence sayıları
+ * @returns Aktif kullanıcı sayısı
+ */
+export function toActiveUserCount(counts: PresenceCounts): number {
+  return Math.max(counts.visitors, counts.sessions);
+}
 
-  /**
-   * Session'ın eski entry'lerini siler
-   * @param key - Redis key
-   * @param session_id - Session kimliği
-   */
-  private async removeSessionEntries(key: string, session_id: string): Promise<void> {
-    try {
-      const members = await redis.getClient().zrangebyscore(key, '-inf', '+inf', 'WITHSCORES');
-      
-      for (let i = 0; i < members.length; i += 2) {
-        const member = members[i];
-        
-        try {
-          // UUID formatını kontrol et (UUID'ler direkt string olarak saklanıyor)
-          if (typeof member === 'string' && member === session_id) {
-            // UUID ise direkt sil
-            await redis.getClient().zrem(key, member);
-            console.log('PresenceTracker: Removed old session entry', { session_id, member });
-            continue;
-          }
-          
-          let data: RedisPresenceData;
-          
-          // Member'ın tipini kontrol et
-          if (typeof member === 'string') {
-            // JSON string ise parse et
-            try {
-              data = JSON.parse(member) as RedisPresenceData;
-            } catch (jsonError) {
-              // JSON değilse UUID olabilir, skip et
-              continue;
-            }
-          } else if (typeof member === 'object' && member !== null) {
-            // Object ise direkt kullan
-            data = member as RedisPresenceData;
-          } else {
-            console.warn('Unknown member type:', typeof member, member);
-            continue;
-          }
-          
-          if (data.session_id === session_id) {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-              console.log('PresenceTracker: Removed old session entry', { session_id, member });
-            }
-          }
-        } catch (parseError) {
-          console.warn('Error parsing member for removal:', parseError, 'Member:', member);
-          // Parse edilemeyen member'ı da sil
-          try {
-            if (member) {
-              await redis.getClient().zrem(key, member);
-            }
-          } catch (removalError) {
-            console.warn('Error removing invalid member:', removalError);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error removing session entries:', error);
+/**
+ * visitor_offline / session_end event'inin süre alanlarını oluşturur
+ * @param reason - Bitiş nedeni
+ * @param meta - Silinen presence metadata'sı (started_at upsert script'inden gelir)
+ * @param lastSeen - Sürenin bittiği an (ms)
+ * @returns Event verisi
+ */
+function toEndEventData(
+  reason: PresenceEndReason,
+  meta: RedisPresenceData | null,
+  lastSeen: number | undefined
+): PresenceEventData {
+  const data: PresenceEventData = { reason, page_path: meta?.page_path, last_seen: lastSeen };
+  const startedAt = meta?.started_at;
+
+  if (startedAt !== undefined) {
+    data.started_at = startedAt;
+    if (lastSeen !== undefined) {
+      data.duration_ms = Math.max(0, lastSeen - startedAt);
     }
   }
 
-  /**
-   * Dashboard'a presence update gönderir
-   * @param shop - Mağaza kimliği
-   * @param update - Presence update verisi
-   */
-  private async publishPresenceUpdate(shop: string, update: any): Promise<void> {
-    try {
-      const channel = `${REDIS_KEYS.PUBSUB_CHANNEL}:${shop}`;
-      await redis.publish(channel, {
-        ...update,
-        shop,
-        timestamp: Date.now(),
-      });
-    } catch (error) {
-      console.error('Error publishing presence update:', error);
-    }
-  }
-}
\ No newline at end of file
+  return data;
+}
@@ -0,0 +1,115 @@
+/**
+ * Active Shop Registry
+ *
+ * Bu dosya canlı presence'ı olan mağazaların kaydını tutar.
+ * presence:shops ZSET'i (member = shop, score = son aktivite) her heartbeat'te
+ * güncellenir ve cleanup sırasında budanır. Tick, cleanup ve istatistikler
+ * KEYS yerine bu registry'yi okur.
+ *
+ * Registry kaybolursa (flush, failover) presence:v:* key'leri SCAN ile
+ * taranarak yeniden oluşturulur.
+ */
+
+import { redis } from '../../utils/redis';
+import {
+  REDIS_KEYS,
+  SHOP_REGISTRY_RETENTION_MS,
+  SHOP_REGISTRY_REBUILD_INTERVAL_MS,
+  SHOP_REGISTRY_SCAN_COUNT,
+} from './constants';
+
+export class ActiveShopRegistry {
+  private lastRebuildAt = 0;
+
+  /**
+   * Mağazanın son aktivite zamanını günceller
+   * @param shop - Mağaza kimliği
+   * @param timestamp - Aktivite zamanı (ms)
+   */
+  public async touch(shop: string, timestamp: number = Date.now()): Promise<void> {
+    await redis.getClient().zadd(REDIS_KEYS.ACTIVE_SHOPS, 'GT', timestamp, shop);
+  }
+
+  /**
+   * Retention süresi içinde aktivitesi olan mağazaları getirir
+   * @returns Aktif shop listesi
+   */
+  public async getActiveShops(): Promise<string[]> {
+    try {
+      const cutoff = Date.now() - SHOP_REGISTRY_RETENTION_MS;
+      const shops = await redis.getClient().zrangebyscore(REDIS_KEYS.ACTIVE_SHOPS, cutoff, '+inf');
+
+      if (shops.length === 0 && this.shouldRebuild()) {
+        return await this.rebuild();
+      }
+
+      return shops;
+    } catch (error) {
+      console.error('Error getting active shops:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Aktif mağaza sayısını getirir
+   * @returns Aktif shop sayısı
+   */
+  public async getActiveShopCount(): Promise<number> {
+    try {
+      const cutoff = Date.now() - SHOP_REGISTRY_RETENTION_MS;
+      return await redis.getClient().zcount(REDIS_KEYS.ACTIVE_SHOPS, cutoff, '+inf');
+    } catch (error) {
+      console.error('Error getting active shop count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Retention süresini aşmış mağazaları registry'den siler
+   * @returns Silinen mağaza sayısı
+   */
+  public async prune(): Promise<number> {
+    const cutoff = Date.now() - SHOP_REGISTRY_RETENTION_MS;
+    return await redis.getClient().zremrangebyscore(REDIS_KEYS.ACTIVE_SHOPS, '-inf', `(${cutoff}`);
+  }
+
+  /**
+   * Registry'yi presence:v:* key'lerini SCAN ederek yeniden oluşturur
+   * @returns Bulunan shop listesi
+   */
+  public async rebuild(): Promise<string[]> {
+    this.lastRebuildAt = Date.now();
+
+    const client = redis.getClient();
+    const prefix = `${REDIS_KEYS.PRESENCE_VISITORS}:`;
+    const stream = client.scanStream({ match: `${prefix}*`, count: SHOP_REGISTRY_SCAN_COUNT });
+    const shops: string[] = [];
+
+    for await (const keys of stream as AsyncIterable<string[]>) {
+      for (const key of keys) {
+        // En son heartbeat zamanı (en yüksek score)
+        const last = await client.zrange(key, -1, -1, 'WITHSCORES');
+        if (last.length < 2) continue;
+
+        const shop = key.slice(prefix.length);
+        await client.zadd(REDIS_KEYS.ACTIVE_SHOPS, 'GT', last[1] as string, shop);
+        shops.push(shop);
+      }
+    }
+
+    if (shops.length > 0) {
+      console.log(`ActiveShopRegistry: Rebuilt registry with ${shops.length} shops`);
+    }
+
+    return shops;
+  }
+
+  /**
+   * Boş registry için SCAN rebuild'in yapılıp yapılmayacağını belirler
+   * (gerçekten aktif shop yoksa SCAN her tick'te tekrarlanmaz)
+   * @returns Rebuild gerekli mi?
+   */
+  private shouldRebuild(): boolean {
+    return Date.now() - this.lastRebuildAt >= SHOP_REGISTRY_REBUILD_INTERVAL_MS;
+  }
+}
@@ -0,0 +1,85 @@
+import { computeDailyMetrics, nearestRankPercentile } from './rollup';
+import { ActiveUsersMinutelyRow } from './types';
+
+const SHOP = 'test-shop.myshopify.com';
+
+function minutelyRow(
+  bucketTs: string,
+  auRaw: number,
+  overrides: Partial<ActiveUsersMinutelyRow> = {}
+): ActiveUsersMinutelyRow {
+  return {
+    shop: SHOP,
+    bucket_ts: bucketTs,
+    au_raw: auRaw,
+    au_raw_max: auRaw,
+    total_tabs: auRaw,
+    au_ema_fast: auRaw,
+    au_ema_slow: auRaw,
+    window_seconds: 60,
+    created_at: bucketTs,
+    ...overrides,
+  };
+}
+
+describe('nearestRankPercentile', () => {
+  it('returns 0 for an empty list', () => {
+    expect(nearestRankPercentile([], 0.95)).toBe(0);
+  });
+
+  it('uses the nearest rank of the sorted values', () => {
+    const values = Array.from({ length: 20 }, (_, i) => 20 - i); // 20..1, unsorted
+
+    expect(nearestRankPercentile(values, 0.95)).toBe(19);
+    expect(nearestRankPercentile(values, 0.5)).toBe(10);
+    expect(nearestRankPercentile(values, 1)).toBe(20);
+  });
+
+  it('returns the smallest value for percentile 0', () => {
+    expect(nearestRankPercentile([5, 3, 9], 0)).toBe(3);
+  });
+
+  it('does not mutate the input', () => {
+    const values = [3, 1, 2];
+    nearestRankPercentile(values, 0.5);
+
+    expect(values).toEqual([3, 1, 2]);
+  });
+});
+
+describe('computeDailyMetrics', () => {
+  it('returns null without rows', () => {
+    expect(computeDailyMetrics(SHOP, '2024-03-10', [])).toBeNull();
+  });
+
+  it('aggregates minutely rows into daily metrics', () => {
+    const rows = [
+      minutelyRow('2024-03-10T05:00:00.000Z', 1, { au_ema_fast: 2, au_ema_slow: 1.5 }),
+      minutelyRow('2024-03-10T05:01:00.000Z', 2, { au_raw_max: 7 }),
+      minutelyRow('2024-03-10T05:02:00.000Z', 4, { au_ema_fast: 5 }),
+    ];
+
+    expect(computeDailyMetrics(SHOP, '2024-03-10', rows)).toEqual({
+      shop: SHOP,
+      day: '2024-03-10',
+      avg_au_raw: 2.33,
+      p95_au_raw: 4,
+      max_au_raw: 7,
+      max_au_raw_at: '2024-03-10T05:01:00.000Z',
+      avg_au_ema: 2.5,
+      avg_au_ema_fast: 3,
+      minutes_observed: 3,
+    });
+  });
+
+  it('keeps the first bucket when the peak is tied', () => {
+    const rows = [
+      minutelyRow('2024-03-10T05:00:00.000Z', 3),
+      minutelyRow('2024-03-10T05:01:00.000Z', 3),
+    ];
+
+    expect(computeDailyMetrics(SHOP, '2024-03-10', rows)?.max_au_raw_at).toBe(
+      '2024-03-10T05:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Daily Active Users Rollup
+ *
+ * Bu dosya active_users_minutely satırlarını mağazanın timezone'una göre
+ * günlük DailyActiveUsersMetrics'e çevirir ve active_users_daily tablosuna
+ * yazar.
+ *
+ * - node-cron ile saatlik çalışır; her shop için kendi timezone'unda
+ *   kapanmış günler rollup edilir.
+ * - Son rollup edilen günden sonraki günler (en fazla
+ *   DAILY_ROLLUP_BACKFILL_DAYS) backfill edilir.
+ * - recompute() ile verilen gün aralığı tekrar hesaplanabilir; daily upsert
+ *   (shop, day) anahtarıyla idempotent'tir.
+ * - Redis lease ile aynı anda tek bir instance çalıştırır.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { DatabaseManager } from '../../database/database-manager';
+import { addDays, formatDay, getDayBounds, listDays, startOfDay } from '../../utils/timezone';
+import { RedisLease } from './lease';
+import { resolveShopTimeZone } from './shop-settings';
+import { ActiveUsersMinutelyRow, DailyActiveUsersMetrics } from './types';
+import {
+  REDIS_KEYS,
+  DAILY_ROLLUP_CRON,
+  DAILY_ROLLUP_BACKFILL_DAYS,
+  DAILY_ROLLUP_LEASE_TTL_MS,
+  DAILY_ROLLUP_PERCENTILE,
+} from './constants';
+
+export class DailyRollupJob {
+  private dbManager: DatabaseManager;
+  private lease: RedisLease;
+  private task: ScheduledTask | undefined;
+  private running = false;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+    this.lease = new RedisLease(REDIS_KEYS.ROLLUP_LEASE, DAILY_ROLLUP_LEASE_TTL_MS);
+  }
+
+  /**
+   * Cron job'ı başlatır (başlangıçta kaçırılan günler için bir kez çalışır)
+   */
+  public start(): void {
+    this.task = cron.schedule(DAILY_ROLLUP_CRON, () => void this.run(), { runOnInit: true });
+  }
+
+  /**
+   * Cron job'ı durdurur
+   */
+  public async stop(): Promise<void> {
+    this.task?.stop();
+    this.task = undefined;
+    await this.lease.release();
+  }
+
+  /**
+   * Tüm shop'lar için kapanmış ve henüz rollup edilmemiş günleri hesaplar
+   * @param now - Şu anki zaman
+   * @returns Yazılan günlük satır sayısı
+   */
+  public async run(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let written = 0;
+
+    try {
+      if (!(await this.lease.acquireOrRenew())) {
+        return 0;
+      }
+
+      // Backfill penceresi + timezone farkı için bir gün pay
+      const from = new Date(now.getTime() - (DAILY_ROLLUP_BACKFILL_DAYS + 1) * 24 * 60 * 60 * 1000);
+      const shops = await this.dbManager.getClickHouse().getActiveUsersMinutelyShops(from, now);
+
+      for (const shop of shops) {
+        try {
+          written += await this.rollupPendingDays(shop, now);
+        } catch (error) {
+          console.error(`Error rolling up active users for shop ${shop}:`, error);
+        }
+      }
+
+      if (written > 0) {
+        console.log(`DailyRollupJob: Rolled up ${written} shop days`);
+      }
+    } catch (error) {
+      console.error('Error during daily active users rollup:', error);
+    } finally {
+      await this.lease.release();
+      this.running = false;
+    }
+
+    return written;
+  }
+
+  /**
+   * Verilen gün aralığını (dahil) yeniden hesaplar ve yazar
+   * @param shop - Mağaza kimliği
+   * @param fromDay - Başlangıç günü (YYYY-MM-DD, shop timezone'unda)
+   * @param toDay - Bitiş günü (YYYY-MM-DD, shop timezone'unda)
+   * @returns Hesaplanan günlük metrikler (verisi olmayan günler hariç)
+   */
+  public async recompute(
+    shop: string,
+    fromDay: string,
+    toDay: string
+  ): Promise<DailyActiveUsersMetrics[]> {
+    const timeZone = await resolveShopTimeZone(this.dbManager, shop);
+    const olap = this.dbManager.getClickHouse();
+    const days = listDays(fromDay, toDay);
+    if (days.length === 0) return [];
+
+    // Aralığın tamamı tek sorguda okunur, günlere ayrılır
+    const rows = await olap.getActiveUsersMinutely(
+      shop,
+      startOfDay(fromDay, timeZone),
+      getDayBounds(toDay, timeZone).end
+    );
+
+    const metrics: DailyActiveUsersMetrics[] = [];
+    for (const day of days) {
+      const { start, end } = getDayBounds(day, timeZone);
+      const dayRows = rows.filter(row => {
+        const ts = new Date(row.bucket_ts).getTime();
+        return ts >= start.getTime() && ts < end.getTime();
+      });
+
+      const dayMetrics = computeDailyMetrics(shop, day, dayRows);
+      if (dayMetrics) metrics.push(dayMetrics);
+    }
+
+    if (metrics.length > 0) {
+      await olap.upsertActiveUsersDaily(metrics);
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Shop'un son rollup'ından sonra kapanmış günleri hesaplar
+   * @param shop - Mağaza kimliği
+   * @param now - Şu anki zaman
+   * @returns Yazılan günlük satır sayısı
+   */
+  private async rollupPendingDays(shop: string, now: Date): Promise<number> {
+    const timeZone = await resolveShopTimeZone(this.dbManager, shop);
+    const lastClosedDay = addDays(formatDay(now, timeZone), -1);
+    const oldestDay = addDays(lastClosedDay, -(DAILY_ROLLUP_BACKFILL_DAYS - 1));
+
+    const latest = await this.dbManager.getClickHouse().getLatestActiveUsersDay(shop);
+    const nextDay = latest ? addDays(latest, 1) : oldestDay;
+    const fromDay = nextDay > oldestDay ? nextDay : oldestDay;
+
+    if (fromDay > lastClosedDay) return 0;
+
+    const metrics = await this.recompute(shop, fromDay, lastClosedDay);
+    return metrics.length;
+  }
+}
+
+/**
+ * Bir günün minutely satırlarından günlük metrikleri hesaplar
+ * @param shop - Mağaza kimliği
+ * @param day - Gün (YYYY-MM-DD)
+ * @param rows - O güne ait minutely satırlar
+ * @returns Günlük metrikler veya (veri yoksa) null
+ */
+export function computeDailyMetrics(
+  shop: string,
+  day: string,
+  rows: ActiveUsersMinutelyRow[]
+): DailyActiveUsersMetrics | null {
+  if (rows.length === 0) return null;
+
+  let sumRaw = 0;
+  let sumEma = 0;
+  let sumEmaFast = 0;
+  let peak = rows[0] as ActiveUsersMinutelyRow;
+
+  for (const row of rows) {
+    sumRaw += row.au_raw;
+    sumEma += row.au_ema_slow;
+    sumEmaFast += row.au_ema_fast;
+    if (row.au_raw_max > peak.au_raw_max) peak = row;
+  }
+
+  return {
+    shop,
+    day,
+    avg_au_raw: round(sumRaw / rows.length),
+    p95_au_raw: nearestRankPercentile(
+      rows.map(row => row.au_raw),
+      DAILY_ROLLUP_PERCENTILE
+    ),
+    max_au_raw: peak.au_raw_max,
+    max_au_raw_at: peak.bucket_ts,
+    avg_au_ema: round(sumEma / rows.length),
+    avg_au_ema_fast: round(sumEmaFast / rows.length),
+    minutes_observed: rows.length,
+  };
+}
+
+/**
+ * Nearest-rank percentile
+ * @param values - Değerler (sırasız)
+ * @param percentile - 0-1 arası
+ * @returns Percentile değeri (boş listede 0)
+ */
+export function nearestRankPercentile(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil(percentile * sorted.length) - 1;
+  return sorted[Math.max(0, rank)] ?? 0;
+}
+
+/**
+ * İki ondalık basamağa yuvarlar
+ */
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
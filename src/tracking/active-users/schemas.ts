@@ -0,0 +1,253 @@
+/**
+ * Active Users Validation Schemas
+ *
+ * Bu dosya heartbeat ve page unload payload'ları için zod şemalarını içerir.
+ * HeartbeatPayload, PresenceBeatRequest ve PresenceByeRequest tipleri bu
+ * şemalardan türetilir (bkz. types.ts).
+ */
+
+import { z } from 'zod';
+import {
+  MIN_SHOP_ID_LENGTH,
+  MAX_SHOP_ID_LENGTH,
+  MIN_VISITOR_ID_LENGTH,
+  MAX_VISITOR_ID_LENGTH,
+  MAX_SESSION_ID_LENGTH,
+  MAX_TAB_ID_LENGTH,
+  MAX_PAGE_PATH_LENGTH,
+  MAX_USER_AGENT_LENGTH,
+  MAX_SCREEN_DIMENSION,
+  MIN_HEARTBEAT_INTERVAL_MS,
+  MAX_HEARTBEAT_INTERVAL_MS,
+  MIN_PRESENCE_TTL_MS,
+  MAX_PRESENCE_TTL_MS,
+  MIN_TICK_INTERVAL_MS,
+  MAX_TICK_INTERVAL_MS,
+  MAX_EMA_TAU_SECONDS,
+  MAX_STREAM_SUBSCRIPTIONS,
+  TOP_DIMENSION_DEFAULT_LIMIT,
+  TOP_DIMENSION_MAX_LIMIT,
+  BREAKDOWN_DEFAULT_LIMIT,
+  MAX_REFERRER_LENGTH,
+  MIN_ALERT_COOLDOWN_MS,
+  MAX_ALERT_COOLDOWN_MS,
+  MAX_WEBHOOK_URL_LENGTH,
+  MIN_WEBHOOK_SECRET_LENGTH,
+  MAX_WEBHOOK_SECRET_LENGTH,
+  ALERT_HISTORY_MAXLEN,
+} from './constants';
+import { validateWebhookUrl } from './webhook';
+
+const dimensionsSchema = z.object({
+  width: z.number().int().nonnegative().max(MAX_SCREEN_DIMENSION),
+  height: z.number().int().nonnegative().max(MAX_SCREEN_DIMENSION),
+});
+
+export const shopSchema = z.string().trim().min(MIN_SHOP_ID_LENGTH).max(MAX_SHOP_ID_LENGTH);
+const visitorIdSchema = z.string().trim().min(MIN_VISITOR_ID_LENGTH).max(MAX_VISITOR_ID_LENGTH);
+const sessionIdSchema = z.string().trim().min(1).max(MAX_SESSION_ID_LENGTH);
+const tabIdSchema = z.string().trim().min(1).max(MAX_TAB_ID_LENGTH);
+const pagePathSchema = z.string().min(1).max(MAX_PAGE_PATH_LENGTH);
+
+/**
+ * POST /presence/beat isteği
+ */
+export const presenceBeatRequestSchema = z.object({
+  shop: shopSchema,
+  visitor_id: visitorIdSchema,
+  session_id: sessionIdSchema.optional(),
+  tab_id: tabIdSchema.optional(),
+  page_path: pagePathSchema,
+  state: z.enum(['active', 'idle', 'hidden']).optional(),
+  user_agent: z.string().max(MAX_USER_AGENT_LENGTH).optional(),
+  referrer: z.string().max(MAX_REFERRER_LENGTH).optional(), // Session'ın giriş referrer'ı
+  viewport: dimensionsSchema.optional(),
+  screen: dimensionsSchema.optional(),
+});
+
+/**
+ * POST /api/heartbeat payload'ı
+ * timestamp sadece bilgi amaçlıdır; presence her zaman server zamanı ile yazılır
+ */
+export const heartbeatPayloadSchema = presenceBeatRequestSchema.extend({
+  timestamp: z
+    .number()
+    .int()
+    .positive()
+    .default(() => Date.now()),
+});
+
+/**
+ * POST /presence/bye ve /api/page-unload isteği
+ */
+export const presenceByeRequestSchema = z.object({
+  shop: shopSchema,
+  visitor_id: visitorIdSchema,
+  session_id: sessionIdSchema.optional(),
+  tab_id: tabIdSchema.optional(),
+  page_path: pagePathSchema,
+});
+
+const activeUsersConfigFields = z.object({
+  heartbeat_interval_ms: z.number().int().min(MIN_HEARTBEAT_INTERVAL_MS).max(MAX_HEARTBEAT_INTERVAL_MS),
+  ttl_ms: z.number().int().min(MIN_PRESENCE_TTL_MS).max(MAX_PRESENCE_TTL_MS),
+  tick_interval_ms: z.number().int().min(MIN_TICK_INTERVAL_MS).max(MAX_TICK_INTERVAL_MS),
+  ema_tau_fast: z.number().positive().max(MAX_EMA_TAU_SECONDS),
+  ema_tau_slow: z.number().positive().max(MAX_EMA_TAU_SECONDS),
+  ema_method: z.enum(['exponential', 'linear', 'adaptive']),
+  enable_redis_pubsub: z.boolean(),
+  enable_database_logging: z.boolean(),
+  batch_size: z.number().int().min(1).max(10_000),
+  max_retry_attempts: z.number().int().min(0).max(10),
+  anomaly_sensitivity: z.enum(['off', 'low', 'medium', 'high']),
+  alert_cooldown_ms: z.number().int().min(MIN_ALERT_COOLDOWN_MS).max(MAX_ALERT_COOLDOWN_MS),
+  alert_webhook_url: z
+    .string()
+    .url()
+    .max(MAX_WEBHOOK_URL_LENGTH)
+    .superRefine((url, ctx) => {
+      const message = validateWebhookUrl(url);
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    })
+    .nullable(),
+});
+
+/**
+ * Alanlar arası kurallar: TTL en az iki heartbeat'i kapsamalı,
+ * slow EMA fast EMA'dan hızlı olamaz
+ */
+function refineActiveUsersConfig(
+  config: {
+    heartbeat_interval_ms?: number | undefined;
+    ttl_ms?: number | undefined;
+    ema_tau_fast?: number | undefined;
+    ema_tau_slow?: number | undefined;
+  },
+  ctx: z.RefinementCtx
+): void {
+  if (
+    config.ttl_ms !== undefined &&
+    config.heartbeat_interval_ms !== undefined &&
+    config.ttl_ms < config.heartbeat_interval_ms * 2
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ttl_ms'],
+      message: 'ttl_ms must be at least twice heartbeat_interval_ms',
+    });
+  }
+
+  if (
+    config.ema_tau_fast !== undefined &&
+    config.ema_tau_slow !== undefined &&
+    config.ema_tau_slow < config.ema_tau_fast
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ema_tau_slow'],
+      message: 'ema_tau_slow must be greater than or equal to ema_tau_fast',
+    });
+  }
+}
+
+/**
+ * ActiveUsersManager konfigürasyonu
+ */
+export const activeUsersConfigSchema = activeUsersConfigFields.superRefine(refineActiveUsersConfig);
+
+/**
+ * Shop.settings.active_users - mağaza bazlı override'lar.
+ * Tick, pubsub, database ve batch ayarları global'dir, shop bazında değişmez.
+ * Anomali hassasiyeti ve alert webhook'u mağaza bazında ayarlanabilir.
+ */
+export const shopActiveUsersSettingsSchema = activeUsersConfigFields
+  .pick({
+    heartbeat_interval_ms: true,
+    ttl_ms: true,
+    ema_tau_fast: true,
+    ema_tau_slow: true,
+    ema_method: true,
+    anomaly_sensitivity: true,
+    alert_cooldown_ms: true,
+    alert_webhook_url: true,
+  })
+  .partial()
+  .superRefine(refineActiveUsersConfig);
+
+/**
+ * Shop.settings.active_users.alert_webhook_secret - webhook imzası için
+ * shop'a özel secret. Override'lardan ayrı doğrulanır: geçersiz bir override
+ * mevcut secret'ın yok sayılıp yenisinin üretilmesine yol açmamalı.
+ */
+export const alertWebhookSecretSchema = z
+  .string()
+  .min(MIN_WEBHOOK_SECRET_LENGTH)
+  .max(MAX_WEBHOOK_SECRET_LENGTH);
+
+const streamShopsSchema = z.array(shopSchema).min(1).max(MAX_STREAM_SUBSCRIPTIONS);
+
+/**
+ * Live stream (WebSocket) client mesajı
+ */
+export const streamClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), shops: streamShopsSchema }),
+  z.object({ type: z.literal('unsubscribe'), shops: streamShopsSchema }),
+  z.object({ type: z.literal('ping') }),
+]);
+
+const dimensionCountSchema = z.object({
+  value: z.string(),
+  visitors: z.number().nonnegative(),
+});
+
+/**
+ * Live stream güncellemesi (pub/sub ema_update mesajı, replay buffer kaydı).
+ * Bilinmeyen alanlar (type, event_id) atılır.
+ */
+export const activeUsersStreamResponseSchema = z.object({
+  shop: shopSchema,
+  timestamp: z.number(),
+  au_raw: z.number().nonnegative(),
+  au_engaged: z.number().nonnegative(),
+  au_ema_fast: z.number().nonnegative(),
+  au_ema_slow: z.number().nonnegative(),
+  trend: z.enum(['up', 'down', 'stable']),
+  trend_strength: z.number(),
+  top_pages: z.array(dimensionCountSchema).optional(),
+  page_types: z.array(dimensionCountSchema).optional(),
+});
+
+/**
+ * GET /api/active-users/:shop/pages query'si
+ */
+export const topDimensionQuerySchema = z.object({
+  by: z.enum(['page_path', 'page_type']).default('page_path'),
+  limit: z.coerce.number().int().min(1).max(TOP_DIMENSION_MAX_LIMIT).default(TOP_DIMENSION_DEFAULT_LIMIT),
+});
+
+/**
+ * GET /api/active-users/:shop/history query'si.
+ * from / to: ISO zaman, epoch ms veya YYYY-MM-DD (shop timezone'unda gün;
+ * to için gün dahil). Aralık history.ts'te shop timezone'u ile çözülür.
+ */
+const historyBoundSchema = z.string().trim().min(1).max(64);
+
+export const historyQuerySchema = z.object({
+  from: historyBoundSchema.optional(),
+  to: historyBoundSchema.optional(),
+  granularity: z.enum(['minute', 'hour', 'day']).default('hour'),
+});
+
+/**
+ * GET /api/active-users/:shop/breakdowns query'si
+ */
+export const breakdownQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(TOP_DIMENSION_MAX_LIMIT).default(BREAKDOWN_DEFAULT_LIMIT),
+});
+
+/**
+ * GET /api/active-users/:shop/alerts query'si
+ */
+export const alertsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(ALERT_HISTORY_MAXLEN).default(ALERT_HISTORY_MAXLEN),
+});
@@ -0,0 +1,366 @@
+/**
+ * Presence Lua Scripts
+ *
+ * Bu dosya presence key'leri üzerinde atomik çalışması gereken Redis Lua
+ * script'lerini içerir. Script'ler redis.evalScript() ile çalıştırılır
+ * (EVALSHA + NOSCRIPT fallback).
+ *
+ * Boyut sayaçlarını (bkz. dimensions.ts) kullanan script'lerde key/arg
+ * düzeni aynıdır: boyut HASH'i ve ardından PRESENCE_DIMENSIONS sırasıyla
+ * sayaç ZSET'leri KEYS'e, boyut adları aynı sırayla ARGV'ye eklenir.
+ */
+
+/**
+ * Boyut sayaçları için ortak Lua fonksiyonları. Script, include etmeden
+ * önce dimHashKey, dimKeyOffset, dimArgOffset ve dimCount'u tanımlar.
+ */
+const DIMENSION_LUA = `
+local function releaseDimension(counterKey, value)
+  if tonumber(redis.call('ZINCRBY', counterKey, -1, value)) <= 0 then
+    redis.call('ZREM', counterKey, value)
+  end
+end
+
+local function releaseDimensions(visitorId)
+  for i = 0, dimCount - 1 do
+    local field = visitorId .. '|' .. ARGV[dimArgOffset + i]
+    local value = redis.call('HGET', dimHashKey, field)
+    if value then
+      releaseDimension(KEYS[dimKeyOffset + i], value)
+    end
+    redis.call('HDEL', dimHashKey, field, field .. '|tab')
+  end
+end
+`;
+
+/**
+ * Süresi dolmuş üyeleri ZSET'ten ve metadata hash'inden birlikte siler.
+ * Offline event'leri üretilebilsin diye silinen üyelerin metadata'sı da
+ * döndürülür. Visitor'lar için boyut key'leri verilirse silinen
+ * visitor'ların boyut değerleri de düşülür.
+ *
+ * KEYS[1] - Presence ZSET (member = id, score = last seen)
+ * KEYS[2] - Metadata HASH (field = id)
+ * KEYS[3..] - (opsiyonel) Boyut HASH'i ve sayaç ZSET'leri
+ * ARGV[1] - Cutoff (ms), bu skor ve altı silinir
+ * ARGV[2] - Tek çağrıda silinecek maksimum üye sayısı
+ * ARGV[3..] - (opsiyonel) Boyut adları
+ *
+ * Dönüş: { id1, meta1, id2, meta2, ... } (metadata yoksa '')
+ */
+export const CLEANUP_EXPIRED_SCRIPT = `
+local dimHashKey = KEYS[3]
+local dimKeyOffset = 4
+local dimArgOffset = 3
+local dimCount = #ARGV - 2
+${DIMENSION_LUA}
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+local removed = {}
+if #ids > 0 then
+  local metas = redis.call('HMGET', KEYS[2], unpack(ids))
+  redis.call('ZREM', KEYS[1], unpack(ids))
+  redis.call('HDEL', KEYS[2], unpack(ids))
+  for i, id in ipairs(ids) do
+    releaseDimensions(id)
+    removed[#removed + 1] = id
+    removed[#removed + 1] = metas[i] or ''
+  end
+end
+return removed
+`;
+
+/**
+ * Visitor'ı presence'tan siler ve boyut değerlerini düşer.
+ *
+ * KEYS[1] - Visitor ZSET
+ * KEYS[2] - Visitor metadata HASH
+ * KEYS[3..] - Boyut HASH'i ve sayaç ZSET'leri
+ * ARGV[1] - visitor_id
+ * ARGV[2..] - Boyut adları
+ *
+ * Dönüş: { removed (1 visitor silindi, 0 zaten offline), metadata ('' yoksa) }
+ */
+export const VISITOR_OFFLINE_SCRIPT = `
+local dimHashKey = KEYS[3]
+local dimKeyOffset = 4
+local dimArgOffset = 2
+local dimCount = #ARGV - 1
+${DIMENSION_LUA}
+local meta = redis.call('HGET', KEYS[2], ARGV[1]) or ''
+local removed = redis.call('ZREM', KEYS[1], ARGV[1])
+redis.call('HDEL', KEYS[2], ARGV[1])
+releaseDimensions(ARGV[1])
+return { removed, meta }
+`;
+
+/**
+ * Heartbeat upsert: visitor + session presence, metadata, expiry, shop
+ * registry ve online geçiş kontrolü tek atomik adımda yapılır. Aynı
+ * visitor'ın iki sekmeden gelen eşzamanlı beat'leri bu sayede tek bir
+ * online geçişi üretir. Sekme hem shop geneli sekme ZSET'ine hem de
+ * visitor'ın sekme ZSET'ine yazılır. Visitor'ın boyut değeri değiştiyse
+ * eski değerin sayacı azaltılır, yenisininki artırılır.
+ *
+ * engagement boyutu sekmeler arasında birleştirilir: visitor'ın durumunu
+ * belirleyen sekme (<visitor_id>|engagement|tab) hâlâ açıksa, başka bir
+ * sekmeden gelen daha düşük durum (active > idle > hidden) onu ezmez.
+ * Böylece arka plandaki bir sekme, aktif kullanılan sekmeyi idle/hidden
+ * göstermez.
+ *
+ * Metadata JSON'ına started_at (online / session başlangıcı) eklenir:
+ * yeni başlayan visitor/session için şimdiki zaman, devam edenler için
+ * önceki metadata'daki değer korunur. Metadata JSON'ı '}' ile bitmeli ve
+ * started_at içermemelidir.
+ *
+ * Adaptive heartbeat'te beat'ler shop interval'ından seyrek gelebilir; bu
+ * yüzden presence skoru "last seen" yerine now + presence TTL - TTL olarak
+ * yazılır. Sayım ve sweep aynı cutoff'u (now - TTL) kullanmaya devam eder,
+ * üye ise presence TTL boyunca canlı kalır. Skorlar ve key expiry'leri
+ * geriye alınmaz: sık beat gönderen bir sekme, seyrek beat gönderen bir
+ * sekmenin uzattığı süreyi kısaltmaz.
+ *
+ * Key'ler presence TTL + sweep payı kadar yaşar: son üyeler süresi dolduktan
+ * sonra key'ler silinmeden önce sweep tarafından görülür; böylece
+ * visitor_offline / session_end event'leri üretilir ve boyut sayaçları düşülür.
+ *
+ * KEYS[1] - Visitor ZSET
+ * KEYS[2] - Visitor metadata HASH
+ * KEYS[3] - Session ZSET
+ * KEYS[4] - Session metadata HASH
+ * KEYS[5] - Active shop registry ZSET
+ * KEYS[6] - Shop sekme ZSET (member = <visitor_id>|<tab_id>)
+ * KEYS[7] - Visitor sekme ZSET (member = tab_id)
+ * KEYS[8..] - Boyut HASH'i ve sayaç ZSET'leri
+ * ARGV[1] - visitor_id
+ * ARGV[2] - session_id ('' ise session güncellenmez)
+ * ARGV[3] - Server zamanı (ms)
+ * ARGV[4] - TTL (ms)
+ * ARGV[5] - Visitor metadata (JSON)
+ * ARGV[6] - Session metadata (JSON)
+ * ARGV[7] - shop
+ * ARGV[8] - tab_id
+ * ARGV[9] - Bu beat'in presence TTL'i (ms, >= TTL)
+ * ARGV[10] - Sweep payı (ms), key expiry'sine eklenir
+ * ARGV[11..] - Boyut adları, ardından aynı sırayla boyut değerleri
+ *
+ * Dönüş: { visitor_online (0/1), session_started (0/1), online visitor sayısı }
+ */
+export const HEARTBEAT_UPSERT_SCRIPT = `
+local now = tonumber(ARGV[3])
+local ttl = tonumber(ARGV[4])
+local presenceTtl = math.max(tonumber(ARGV[9]), ttl)
+local cutoff = now - ttl
+local score = now + presenceTtl - ttl
+local keyTtl = presenceTtl + tonumber(ARGV[10])
+local dimHashKey = KEYS[8]
+local dimKeyOffset = 9
+local dimArgOffset = 11
+local dimCount = (#ARGV - 10) / 2
+${DIMENSION_LUA}
+local function extendExpire(key)
+  if redis.call('PTTL', key) < keyTtl then
+    redis.call('PEXPIRE', key, keyTtl)
+  end
+end
+
+local function touch(zsetKey, id)
+  local previous = redis.call('ZSCORE', zsetKey, id)
+  if (not previous) or tonumber(previous) < score then
+    redis.call('ZADD', zsetKey, score, id)
+  end
+  extendExpire(zsetKey)
+  return previous
+end
+
+local function upsert(zsetKey, metaKey, id, meta)
+  local previous = touch(zsetKey, id)
+  local started = (not previous) or tonumber(previous) <= cutoff
+  local startedAt = ARGV[3]
+  if not started then
+    local previousMeta = redis.call('HGET', metaKey, id)
+    startedAt = (previousMeta and string.match(previousMeta, '"started_at":(%d+)')) or startedAt
+  end
+  redis.call('HSET', metaKey, id, string.sub(meta, 1, -2) .. ',"started_at":' .. startedAt .. '}')
+  extendExpire(metaKey)
+  if started then
+    return 1
+  end
+  return 0
+end
+
+local visitorOnline = upsert(KEYS[1], KEYS[2], ARGV[1], ARGV[5])
+local sessionStarted = 0
+if ARGV[2] ~= '' then
+  sessionStarted = upsert(KEYS[3], KEYS[4], ARGV[2], ARGV[6])
+end
+
+-- Sekme skoru her beat'te yazılır: sekmenin kendi sonraki beat'ine göre
+redis.call('ZADD', KEYS[6], score, ARGV[1] .. '|' .. ARGV[8])
+extendExpire(KEYS[6])
+redis.call('ZADD', KEYS[7], score, ARGV[8])
+extendExpire(KEYS[7])
+
+-- Boyut sayaçları: HASH'teki değer, visitor'ın şu an sayıldığı değerdir
+local engagementRank = { hidden = 1, idle = 2, active = 3 }
+for i = 0, dimCount - 1 do
+  local counterKey = KEYS[dimKeyOffset + i]
+  local field = ARGV[1] .. '|' .. ARGV[dimArgOffset + i]
+  local value = ARGV[dimArgOffset + dimCount + i]
+  local previous = redis.call('HGET', dimHashKey, field)
+  if ARGV[dimArgOffset + i] == 'engagement' then
+    local owner = redis.call('HGET', dimHashKey, field .. '|tab')
+    local ownerSeen = owner and owner ~= ARGV[8] and redis.call('ZSCORE', KEYS[7], owner)
+    if previous and ownerSeen and tonumber(ownerSeen) > cutoff
+      and (engagementRank[value] or 0) < (engagementRank[previous] or 0) then
+      value = previous
+    else
+      redis.call('HSET', dimHashKey, field .. '|tab', ARGV[8])
+    end
+  end
+  if previous ~= value then
+    if previous then
+      releaseDimension(counterKey, previous)
+    end
+    redis.call('ZINCRBY', counterKey, 1, value)
+    redis.call('HSET', dimHashKey, field, value)
+  end
+  extendExpire(counterKey)
+end
+if dimCount > 0 then
+  extendExpire(dimHashKey)
+end
+
+local lastActivity = redis.call('ZSCORE', KEYS[5], ARGV[7])
+if (not lastActivity) or tonumber(lastActivity) < now then
+  redis.call('ZADD', KEYS[5], now, ARGV[7])
+end
+
+return { visitorOnline, sessionStarted, redis.call('ZCARD', KEYS[1]) }
+`;
+
+/**
+ * Sekme kapanışı (page unload): sekmeyi siler ve visitor'ın açık sekmesi
+ * kalmadıysa visitor'ı (ve session'ı) offline yapar. Başka sekmeden gelen
+ * eşzamanlı bir beat ile yarışmaması için tek atomik adımda yapılır.
+ *
+ * KEYS[1] - Visitor ZSET
+ * KEYS[2] - Visitor metadata HASH
+ * KEYS[3] - Session ZSET
+ * KEYS[4] - Session metadata HASH
+ * KEYS[5] - Shop sekme ZSET
+ * KEYS[6] - Visitor sekme ZSET
+ * KEYS[7..] - Boyut HASH'i ve sayaç ZSET'leri
+ * ARGV[1] - visitor_id
+ * ARGV[2] - session_id ('' ise session kapatılmaz)
+ * ARGV[3] - tab_id
+ * ARGV[4] - Cutoff (ms), bu skor ve altındaki sekmeler kapanmış sayılır
+ * ARGV[5..] - Boyut adları
+ *
+ * Dönüş: { remaining_tabs, visitor_offline (0/1), session_ended (0/1),
+ *          visitor metadata, session metadata } (offline olmadıysa metadata '')
+ */
+export const TAB_CLOSE_SCRIPT = `
+local dimHashKey = KEYS[7]
+local dimKeyOffset = 8
+local dimArgOffset = 5
+local dimCount = #ARGV - 4
+${DIMENSION_LUA}
+redis.call('ZREM', KEYS[5], ARGV[1] .. '|' .. ARGV[3])
+redis.call('ZREM', KEYS[6], ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[6], '-inf', ARGV[4])
+
+local remaining = redis.call('ZCARD', KEYS[6])
+local visitorOffline = 0
+local sessionEnded = 0
+local visitorMeta = ''
+local sessionMeta = ''
+
+if remaining == 0 then
+  visitorMeta = redis.call('HGET', KEYS[2], ARGV[1]) or ''
+  visitorOffline = redis.call('ZREM', KEYS[1], ARGV[1])
+  redis.call('HDEL', KEYS[2], ARGV[1])
+  releaseDimensions(ARGV[1])
+  if ARGV[2] ~= '' then
+    sessionMeta = redis.call('HGET', KEYS[4], ARGV[2]) or ''
+    sessionEnded = redis.call('ZREM', KEYS[3], ARGV[2])
+    redis.call('HDEL', KEYS[4], ARGV[2])
+  end
+end
+
+return { remaining, visitorOffline, sessionEnded, visitorMeta, sessionMeta }
+`;
+
+/**
+ * Lease'i sadece sahibi ise uzatır (compare-and-pexpire).
+ *
+ * KEYS[1] - Lease key'i
+ * ARGV[1] - Instance id (owner)
+ * ARGV[2] - Lease süresi (ms)
+ *
+ * Dönüş: 1 uzatıldı, 0 lease başka instance'ta veya yok
+ */
+export const LEASE_RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Lease'i sadece sahibi ise bırakır (compare-and-delete).
+ *
+ * KEYS[1] - Lease key'i
+ * ARGV[1] - Instance id (owner)
+ *
+ * Dönüş: 1 bırakıldı, 0 lease başka instance'ta veya yok
+ */
+export const LEASE_RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Tick örneğini shop'un dakika bucket'ına ekler ve bucket'ı flush
+ * kuyruğuna yazar. Aggregate Redis'te tutulduğu için tick lideri dakika
+ * ortasında değişse bile bucket kaldığı yerden devam eder.
+ *
+ * KEYS[1] - Bucket HASH
+ * KEYS[2] - Pending bucket ZSET
+ * ARGV[1] - au_raw
+ * ARGV[2] - total_tabs
+ * ARGV[3] - ema_fast
+ * ARGV[4] - ema_slow
+ * ARGV[5] - Örnek zamanı (ms)
+ * ARGV[6] - Bucket başlangıcı (ms)
+ * ARGV[7] - Pending member (<shop>|<bucket_ms>)
+ * ARGV[8] - Bucket TTL (ms)
+ * ARGV[9] - Presence penceresi (saniye)
+ *
+ * Dönüş: bucket'taki örnek sayısı
+ */
+export const MINUTE_SAMPLE_SCRIPT = `
+local auRaw = tonumber(ARGV[1])
+local sampleTs = tonumber(ARGV[5])
+
+local samples = redis.call('HINCRBY', KEYS[1], 'samples', 1)
+redis.call('HINCRBYFLOAT', KEYS[1], 'sum_au_raw', ARGV[1])
+redis.call('HINCRBYFLOAT', KEYS[1], 'sum_total_tabs', ARGV[2])
+
+local maxAuRaw = tonumber(redis.call('HGET', KEYS[1], 'max_au_raw'))
+if (not maxAuRaw) or auRaw > maxAuRaw then
+  redis.call('HSET', KEYS[1], 'max_au_raw', ARGV[1])
+end
+
+-- EMA değerleri bucket'ın son örneğinden alınır
+local lastTs = tonumber(redis.call('HGET', KEYS[1], 'last_ts'))
+if (not lastTs) or sampleTs >= lastTs then
+  redis.call('HSET', KEYS[1], 'last_ts', ARGV[5], 'ema_fast', ARGV[3], 'ema_slow', ARGV[4], 'window_seconds', ARGV[9])
+end
+
+redis.call('PEXPIRE', KEYS[1], ARGV[8])
+redis.call('ZADD', KEYS[2], 'NX', ARGV[6], ARGV[7])
+
+return samples
+`;
@@ -0,0 +1,244 @@
+/**
+ * Shop Active Users Settings
+ *
+ * Bu dosya Shop.settings.active_users alanından mağaza bazlı override'ları
+ * (TTL, heartbeat interval, EMA tau'ları ve yöntemi, anomali hassasiyeti ve
+ * alert webhook'u) okur ve base ActiveUsersConfig ile birleştirir. Yoğun
+ * trafikli mağazalar daha kısa TTL ve tau'lar, küçük mağazalar daha uzun
+ * pencereler kullanabilir.
+ *
+ * Efektif konfigürasyon tick ve heartbeat başına okunduğu için boyutu
+ * sınırlı bir TTL cache'inde tutulur (shop değeri doğrulanmamış heartbeat'lerden
+ * gelir); soğuk cache'te eşzamanlı istekler tek bir okumayı paylaşır. Shop ve
+ * plan kayıtları ClientConfigProvider ile paylaşılan ShopDirectory'den okunur.
+ * Geçersiz override'lar loglanır ve yok sayılır. Okuma hataları cache'lenmez;
+ * o çağrı base konfigürasyonu kullanır ve sonraki çağrı tekrar dener. Shop'un planından heartbeat
+ * interval çarpanı da aynı okumada çözülür (bkz. heartbeat-policy.ts).
+ *
+ * Alert webhook'ları shop'a özel bir secret ile imzalanır
+ * (Shop.settings.active_users.alert_webhook_secret). Secret'ı olmayan shop için
+ * ilk teslimatta rastgele bir secret üretilip shop ayarlarına yazılır.
+ */
+
+import { randomBytes } from 'crypto';
+import { DatabaseManager } from '../../database/database-manager';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../utils/timezone';
+import { TtlCache } from '../../utils/ttl-cache';
+import { alertWebhookSecretSchema, shopActiveUsersSettingsSchema } from './schemas';
+import { applyShopOverrides } from './config';
+import { ActiveUsersConfig, ShopActiveUsersSettings } from './types';
+import {
+  SHOP_SETTINGS_CACHE_TTL_MS,
+  SHOP_SETTINGS_CACHE_MAX_ENTRIES,
+  HEARTBEAT_REALTIME_PLAN_FEATURE,
+  HEARTBEAT_STANDARD_PLAN_MULTIPLIER,
+  ALERT_WEBHOOK_SECRET_BYTES,
+} from './constants';
+
+interface ResolvedShopSettings {
+  config: ActiveUsersConfig;
+  plan_multiplier: number;
+  webhook_secret: string | null;
+}
+
+export class ShopSettingsResolver {
+  private config: ActiveUsersConfig;
+  private dbManager: DatabaseManager | undefined;
+  private cache: TtlCache<ResolvedShopSettings> = new TtlCache(
+    SHOP_SETTINGS_CACHE_TTL_MS,
+    SHOP_SETTINGS_CACHE_MAX_ENTRIES
+  );
+
+  /**
+   * @param config - Base konfigürasyon
+   * @param dbManager - Verilmezse tüm shop'lar base konfigürasyonu kullanır
+   */
+  constructor(config: ActiveUsersConfig, dbManager?: DatabaseManager) {
+    this.config = config;
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Base konfigürasyonu getirir
+   * @returns Base konfigürasyon
+   */
+  public getBaseConfig(): ActiveUsersConfig {
+    return this.config;
+  }
+
+  /**
+   * Shop'un efektif konfigürasyonunu getirir (cache'li)
+   * @param shop - Mağaza domain'i
+   * @returns Base konfigürasyon + shop override'ları
+   */
+  public async getConfig(shop: string): Promise<ActiveUsersConfig> {
+    if (!this.dbManager) return this.config;
+    return (await this.tryResolve(shop))?.config ?? this.config;
+  }
+
+  /**
+   * Shop'un planına göre heartbeat interval çarpanını getirir (cache'li)
+   * @param shop - Mağaza domain'i
+   * @returns Plan realtime özelliğini içermiyorsa HEARTBEAT_STANDARD_PLAN_MULTIPLIER,
+   *   aksi halde (veya plan okunamazsa) 1
+   */
+  public async getPlanMultiplier(shop: string): Promise<number> {
+    if (!this.dbManager) return 1;
+    return (await this.tryResolve(shop))?.plan_multiplier ?? 1;
+  }
+
+  /**
+   * Shop'un alert webhook secret'ını getirir; yoksa üretip shop ayarlarına yazar
+   * @param shop - Mağaza domain'i
+   * @returns Secret (database yoksa veya shop bulunamazsa null)
+   * @throws Error - Shop ayarları okunamaz veya yazılamazsa
+   */
+  public async getWebhookSecret(shop: string): Promise<string | null> {
+    if (!this.dbManager) return null;
+
+    const { webhook_secret } = await this.resolve(shop);
+    return webhook_secret ?? (await this.createWebhookSecret(shop));
+  }
+
+  /**
+   * Cache'i temizler (settings değiştiğinde çağrılır)
+   * @param shop - Mağaza domain'i, verilmezse tüm cache
+   */
+  public invalidate(shop?: string): void {
+    this.cache.invalidate(shop);
+    this.dbManager?.getShopDirectory().invalidate(shop);
+  }
+
+  /**
+   * resolve() gibi, fakat okuma hatasını loglayıp null döner
+   * @param shop - Mağaza domain'i
+   * @returns Çözülmüş shop ayarları veya (okunamazsa) null
+   */
+  private async tryResolve(shop: string): Promise<ResolvedShopSettings | null> {
+    try {
+      return await this.resolve(shop);
+    } catch (error) {
+      console.error(`Error loading active users settings for shop ${shop}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Shop'un efektif konfigürasyonunu ve plan çarpanını çözer (cache'li).
+   * Okuma hataları fırlatılır, böylece TtlCache sonucu saklamaz.
+   * @param shop - Mağaza domain'i
+   * @returns Çözülmüş shop ayarları
+   * @throws Error - Shop veya plan okunamazsa
+   */
+  private async resolve(shop: string): Promise<ResolvedShopSettings> {
+    return await this.cache.getOrLoad(shop, async () => {
+      const { settings, plan_multiplier, webhook_secret } = await this.loadSettings(shop);
+      const config = applyShopOverrides(this.config, settings);
+
+      if (config === this.config && Object.keys(settings).length > 0) {
+        console.warn(`Active users overrides for shop ${shop} conflict with base config, ignoring`);
+      }
+
+      return { config, plan_multiplier, webhook_secret };
+    });
+  }
+
+  /**
+   * Shop için yeni bir webhook secret'ı üretip Shop.settings.active_users'a yazar.
+   * Cache'te görünmeyen ama bu arada yazılmış bir secret varsa o döndürülür.
+   * @param shop - Mağaza domain'i
+   * @returns Secret (shop bulunamazsa null)
+   */
+  private async createWebhookSecret(shop: string): Promise<string | null> {
+    if (!this.dbManager) return null;
+
+    const oltp = this.dbManager.getPostgreSQL();
+    const record = await oltp.getShopByDomain(shop);
+    if (!record) return null;
+
+    const activeUsers = record.settings?.active_users ?? {};
+    const existing = alertWebhookSecretSchema.safeParse(activeUsers.alert_webhook_secret);
+    const secret = existing.success
+      ? existing.data
+      : randomBytes(ALERT_WEBHOOK_SECRET_BYTES).toString('hex');
+
+    if (!existing.success) {
+      await oltp.updateShop(record.id, {
+        settings: {
+          ...record.settings,
+          active_users: { ...activeUsers, alert_webhook_secret: secret },
+        },
+      });
+    }
+
+    this.invalidate(shop);
+    return secret;
+  }
+
+  /**
+   * Shop.settings.active_users'ı okur ve doğrular, planın realtime
+   * özelliğini kontrol eder
+   * @param shop - Mağaza domain'i
+   * @returns Override'lar (yoksa veya geçersizse boş obje), plan çarpanı
+   *   (planı olmayan shop'larda 1) ve webhook secret'ı
+   * @throws Error - Shop veya plan okunamazsa
+   */
+  private async loadSettings(shop: string): Promise<{
+    settings: ShopActiveUsersSettings;
+    plan_multiplier: number;
+    webhook_secret: string | null;
+  }> {
+    if (!this.dbManager) return { settings: {}, plan_multiplier: 1, webhook_secret: null };
+
+    const { shop: shopRecord, plan } = await this.dbManager.getShopDirectory().getShop(shop);
+
+    let settings: ShopActiveUsersSettings = {};
+    const parsed = shopActiveUsersSettingsSchema.safeParse(
+      shopRecord?.settings?.active_users ?? {}
+    );
+    if (parsed.success) {
+      settings = parsed.data;
+    } else {
+      console.warn(
+        `Invalid active users settings for shop ${shop}, ignoring overrides`,
+        parsed.error.issues
+      );
+    }
+
+    const secret = alertWebhookSecretSchema.safeParse(
+      shopRecord?.settings?.active_users?.alert_webhook_secret
+    );
+    const webhookSecret = secret.success ? secret.data : null;
+
+    const planMultiplier =
+      plan && !plan.features.includes(HEARTBEAT_REALTIME_PLAN_FEATURE)
+        ? HEARTBEAT_STANDARD_PLAN_MULTIPLIER
+        : 1;
+
+    return { settings, plan_multiplier: planMultiplier, webhook_secret: webhookSecret };
+  }
+}
+
+/**
+ * Shop'un timezone'unu Shop.settings.timezone'dan çözer
+ * @param dbManager - Database manager
+ * @param shop - Mağaza domain'i
+ * @returns IANA timezone (bulunamazsa UTC)
+ */
+export async function resolveShopTimeZone(
+  dbManager: DatabaseManager,
+  shop: string
+): Promise<string> {
+  try {
+    const { shop: record } = await dbManager.getShopDirectory().getShop(shop);
+    const timeZone = record?.settings?.timezone;
+
+    if (typeof timeZone === 'string' && isValidTimeZone(timeZone)) {
+      return timeZone;
+    }
+  } catch (error) {
+    console.error(`Error resolving timezone for shop ${shop}:`, error);
+  }
+
+  return DEFAULT_TIMEZONE;
+}
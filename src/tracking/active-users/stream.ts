@@ -0,0 +1,249 @@
+/**
+ * Active Users Live Stream
+ *
+ * Bu dosya dashboard'lara canlı ActiveUsersStreamResponse güncellemeleri
+ * dağıtan hub'ı içerir. Hub, RedisManager'ın pub/sub bağlantısı üzerinden
+ * `channel:presence:*` pattern'ine abone olur ve mesajları bu instance'taki
+ * dinleyicilere iletir:
+ *
+ * - ema_update: lider tick'in yayınladığı değerler doğrudan iletilir
+ * - presence event'leri: shop'un güncel snapshot'ı okunup iletilir
+ *
+ * Aynı shop için eşzamanlı snapshot okumaları birleştirilir; yoğun heartbeat
+ * trafiğinde shop başına en fazla bir okuma beklemede olur.
+ *
+ * ema_update'ler yayınlanmadan önce shop'un replay buffer'ına (Redis Stream)
+ * yazılır; entry id'si event id olarak taşınır ve SSE client'ları
+ * Last-Event-ID ile kaçırdıkları güncellemeleri buradan alır.
+ */
+
+import { redis, PubSubMessage } from '../../utils/redis';
+import { activeUsersStreamResponseSchema } from './schemas';
+import {
+  ActiveUsersStreamEvent,
+  ActiveUsersStreamListener,
+  ActiveUsersStreamResponse,
+} from './types';
+import { REDIS_KEYS, STREAM_REPLAY_MAXLEN, STREAM_REPLAY_TTL_MS } from './constants';
+
+export type StreamSnapshotProvider = (shop: string) => Promise<ActiveUsersStreamResponse>;
+
+export class ActiveUsersStream {
+  private getSnapshot: StreamSnapshotProvider;
+  private unsubscribe: (() => Promise<void>) | undefined;
+  private listeners: Map<string, Set<ActiveUsersStreamListener>> = new Map();
+  // shop → snapshot okunurken yeni değişiklik geldi mi?
+  private refreshing: Map<string, boolean> = new Map();
+
+  /**
+   * @param getSnapshot - Shop'un güncel değerlerini okuyan fonksiyon
+   */
+  constructor(getSnapshot: StreamSnapshotProvider) {
+    this.getSnapshot = getSnapshot;
+  }
+
+  /**
+   * Presence kanallarına abone olur
+   */
+  public async start(): Promise<void> {
+    if (this.unsubscribe) return;
+
+    try {
+      this.unsubscribe = await redis.psubscribe<Record<string, unknown>>(
+        `${REDIS_KEYS.PUBSUB_CHANNEL}:*`,
+        message => this.handleMessage(message)
+      );
+    } catch (error) {
+      console.error('Error starting active users stream:', error);
+    }
+  }
+
+  /**
+   * Presence kanallarından ayrılır
+   */
+  public async stop(): Promise<void> {
+    const unsubscribe = this.unsubscribe;
+    if (!unsubscribe) return;
+    this.unsubscribe = undefined;
+
+    await unsubscribe();
+  }
+
+  /**
+   * Shop güncellemelerine abone olur
+   * @param shop - Mağaza kimliği
+   * @param listener - Her güncellemede çağrılır
+   * @returns Aboneliği sonlandıran fonksiyon
+   */
+  public subscribe(shop: string, listener: ActiveUsersStreamListener): () => void {
+    let shopListeners = this.listeners.get(shop);
+    if (!shopListeners) {
+      shopListeners = new Set();
+      this.listeners.set(shop, shopListeners);
+    }
+    shopListeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(shop);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(shop);
+      }
+    };
+  }
+
+  /**
+   * Güncellemeyi shop'un replay buffer'ına ekler
+   * @param shop - Mağaza kimliği
+   * @param update - Güncel değerler
+   * @returns Event id (Redis Stream entry id)
+   */
+  public async append(shop: string, update: ActiveUsersStreamResponse): Promise<string> {
+    const key = `${REDIS_KEYS.STREAM_REPLAY}:${shop}`;
+    const results = await redis
+      .getClient()
+      .multi()
+      .xadd(key, 'MAXLEN', '~', STREAM_REPLAY_MAXLEN, '*', 'data', JSON.stringify(update))
+      .pexpire(key, STREAM_REPLAY_TTL_MS)
+      .exec();
+
+    const [xaddResult] = results ?? [];
+    if (!xaddResult || xaddResult[0] || typeof xaddResult[1] !== 'string') {
+      throw xaddResult?.[0] ?? new Error(`Failed to append stream event for shop ${shop}`);
+    }
+    return xaddResult[1];
+  }
+
+  /**
+   * Verilen event'ten sonraki güncellemeleri replay buffer'ından okur
+   * @param shop - Mağaza kimliği
+   * @param lastEventId - Client'ın aldığı son event id
+   * @returns Sonraki event'ler; lastEventId buffer'da yoksa (kırpılmış/bilinmiyor) null
+   */
+  public async replay(shop: string, lastEventId: string): Promise<ActiveUsersStreamEvent[] | null> {
+    const key = `${REDIS_KEYS.STREAM_REPLAY}:${shop}`;
+    const entries = await redis
+      .getClient()
+      .xrange(key, lastEventId, '+', 'COUNT', STREAM_REPLAY_MAXLEN + 1);
+
+    const [first, ...rest] = entries;
+    if (!first || first[0] !== lastEventId) return null;
+
+    return rest.flatMap(([id, fields]) => {
+      const data = parseStreamEntry(fields);
+      return data ? [{ id, data }] : [];
+    });
+  }
+
+  /**
+   * Replay buffer'ındaki en son event id'sini getirir
+   * @param shop - Mağaza kimliği
+   * @returns Son event id veya null
+   */
+  public async getLatestEventId(shop: string): Promise<string | null> {
+    const key = `${REDIS_KEYS.STREAM_REPLAY}:${shop}`;
+    const [latest] = await redis.getClient().xrevrange(key, '+', '-', 'COUNT', 1);
+    return latest ? latest[0] : null;
+  }
+
+  /**
+   * Bu instance'taki dinleyici sayısını getirir
+   * @returns Toplam dinleyici sayısı
+   */
+  public getListenerCount(): number {
+    let count = 0;
+    for (const shopListeners of this.listeners.values()) {
+      count += shopListeners.size;
+    }
+    return count;
+  }
+
+  /**
+   * Pub/sub mesajını işler
+   * @param message - channel:presence:<shop> mesajı
+   */
+  private handleMessage(message: PubSubMessage<Record<string, unknown>>): void {
+    const shop = message.channel.slice(REDIS_KEYS.PUBSUB_CHANNEL.length + 1);
+    if (!this.listeners.has(shop)) return;
+
+    const payload = message.data;
+    if (!payload || typeof payload !== 'object') return;
+
+    if (payload['type'] === 'ema_update') {
+      const update = activeUsersStreamResponseSchema.safeParse(payload);
+      if (!update.success) {
+        console.warn(`Invalid ema_update message for shop ${shop}, ignoring`, update.error.issues);
+        return;
+      }
+
+      const eventId = payload['event_id'];
+      this.emit(shop, update.data, typeof eventId === 'string' ? eventId : undefined);
+      return;
+    }
+
+    // Presence değişikliği: güncel değerleri oku
+    void this.refresh(shop);
+  }
+
+  /**
+   * Shop'un snapshot'ını okuyup dinleyicilere iletir.
+   * Okuma sürerken gelen değişiklikler tek bir ek okumada birleştirilir.
+   * @param shop - Mağaza kimliği
+   */
+  private async refresh(shop: string): Promise<void> {
+    if (this.refreshing.has(shop)) {
+      this.refreshing.set(shop, true);
+      return;
+    }
+
+    this.refreshing.set(shop, false);
+    try {
+      do {
+        this.refreshing.set(shop, false);
+        this.emit(shop, await this.getSnapshot(shop));
+      } while (this.refreshing.get(shop) && this.listeners.has(shop));
+    } catch (error) {
+      console.error(`Error refreshing active users stream for shop ${shop}:`, error);
+    } finally {
+      this.refreshing.delete(shop);
+    }
+  }
+
+  /**
+   * Güncellemeyi shop dinleyicilerine iletir
+   * @param shop - Mağaza kimliği
+   * @param update - Güncel değerler
+   * @param eventId - Replay buffer event id'si (varsa)
+   */
+  private emit(shop: string, update: ActiveUsersStreamResponse, eventId?: string): void {
+    const shopListeners = this.listeners.get(shop);
+    if (!shopListeners) return;
+
+    for (const listener of shopListeners) {
+      try {
+        listener(update, eventId);
+      } catch (error) {
+        console.error(`Active users stream listener error for shop ${shop}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Replay buffer entry'sinin data alanını parse eder
+ * @param fields - [field, value, ...] listesi
+ * @returns Güncelleme veya null
+ */
+function parseStreamEntry(fields: string[]): ActiveUsersStreamResponse | null {
+  const index = fields.indexOf('data');
+  const raw = index >= 0 ? fields[index + 1] : undefined;
+  if (raw === undefined) return null;
+
+  try {
+    const update = activeUsersStreamResponseSchema.safeParse(JSON.parse(raw));
+    return update.success ? update.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -4,17 +4,43 @@
  * Bu dosya Active Users modülü için kullanılan TypeScript tiplerini içerir.
  * Presence tracking, EMA algoritması ve heartbeat mekanizması için
  * gerekli interface'ler ve type'lar tanımlanmıştır.
+ * Request/payload tipleri schemas.ts'teki zod şemalarından türetilir.
  */
 
+import { z } from 'zod';
+import {
+  heartbeatPayloadSchema,
+  presenceBeatRequestSchema,
+  presenceByeRequestSchema,
+  activeUsersConfigSchema,
+  shopActiveUsersSettingsSchema,
+  streamClientMessageSchema,
+  topDimensionQuerySchema,
+  breakdownQuerySchema,
+  historyQuerySchema,
+  alertsQuerySchema,
+} from './schemas';
+
 // Presence Data Types
 export interface PresenceData {
   shop: string;
   visitor_id: string;
   session_id?: string | undefined;
+  tab_id?: string | undefined;
   timestamp: number;
   page_path: string;
+  state?: EngagementState | undefined; // Sekmenin etkileşim durumu (varsayılan: active)
   user_agent?: string | undefined;
   ip_hash?: string | undefined;
+  country?: string | undefined; // ISO 3166-1 alpha-2, IP'den çözülür (ham IP saklanmaz)
+  referrer?: string | undefined;
+  viewport?: { width: number; height: number } | undefined;
+}
+
+// Heartbeat isteğinin bağlamı (payload dışından gelen bilgiler)
+export interface HeartbeatContext {
+  ip?: string | undefined;
+  user_agent?: string | undefined;
 }
 
 export interface PresenceUpdate {
@@ -33,6 +59,7 @@ export interface EMAResult {
   last_ts: number;
   trend: 'up' | 'down' | 'stable';
   trend_strength: number; // 0-1 arası
+  method: EMACalculationMethod;
 }
 
 export interface EMAState {
@@ -40,39 +67,69 @@ export interface EMAState {
   ema_slow: number;
   last_ts: number;
   last_au_raw: number;
+  method?: EMACalculationMethod | undefined; // Son güncellemede kullanılan yöntem
+  history?: Array<[number, number]> | undefined; // [timestamp, au_raw] örnekleri (linear / adaptive)
 }
 
-// Heartbeat Types
-export interface HeartbeatPayload {
-  shop: string;
-  visitor_id: string;
-  session_id?: string;
-  page_path: string;
-  timestamp: number;
-  user_agent?: string;
-  viewport?: {
-    width: number;
-    height: number;
-  };
-  screen?: {
-    width: number;
-    height: number;
-  };
+export interface EMATaus {
+  fast: number; // Fast time constant (saniye)
+  slow: number; // Slow time constant (saniye)
 }
 
+export interface HeartbeatUpsertResult {
+  visitor_online: boolean; // Visitor bu beat ile online oldu
+  session_started: boolean; // Session bu beat ile başladı
+  shop_visitors: number; // Shop'un presence ZSET'indeki visitor sayısı (sweep'e kadar yaklaşık)
+}
+
+export interface TabCloseResult {
+  remaining_tabs: number; // Visitor'ın hâlâ açık olan sekmeleri
+  visitor_offline: boolean; // Son sekme kapandı, visitor offline oldu
+  session_ended: boolean; // Son sekme ile session da bitti
+}
+
+export interface PresenceCounts {
+  visitors: number; // Eşzamanlı visitor
+  sessions: number; // Eşzamanlı session
+  tabs: number; // Açık sekme (visitor başına birden fazla olabilir)
+  engaged: number; // En az bir sekmesi aktif kullanılan visitor
+  idle: number; // Sekmeleri açık ama etkileşim olmayan visitor
+  hidden: number; // Tüm sekmeleri arka planda olan visitor
+}
+
+// Heartbeat Types
+export type HeartbeatPayload = z.infer<typeof heartbeatPayloadSchema>;
+
 export interface HeartbeatResponse {
   success: boolean;
   message?: string;
   next_heartbeat_in?: number; // milliseconds
 }
 
+export interface HeartbeatIntervalFactors {
+  state?: EngagementState | undefined; // Sekme durumu (yoksa active)
+  shop_visitors: number; // Shop'un online visitor sayısı (yaklaşık)
+  plan_multiplier: number; // Plan çarpanı (realtime planlarda 1)
+  load_multiplier: number; // Instance yük çarpanı (hedef altında 1)
+}
+
+export interface HeartbeatSchedule {
+  next_heartbeat_in: number; // milliseconds
+  presence_ttl_ms: number; // Bu beat'in presence'ı canlı tutacağı süre
+}
+
 // Active Users Metrics Types
 export interface ActiveUsersMetrics {
   shop: string;
   timestamp: number;
   au_raw: number; // Raw active users count
+  au_engaged: number; // Visitors actively interacting with a page
   au_ema_fast: number; // Fast EMA value
   au_ema_slow: number; // Slow EMA value
+  active_visitors: number; // Concurrent visitors
+  active_sessions: number; // Concurrent sessions
+  idle_visitors: number; // Visitors with open but idle tabs
+  hidden_visitors: number; // Visitors with only background tabs
   total_tabs: number; // Total active tabs
   window_seconds: number; // Time window
 }
@@ -85,17 +142,49 @@ export interface DailyActiveUsersMetrics {
   max_au_raw: number; // Peak concurrent users
   max_au_raw_at: string; // ISO timestamp
   avg_au_ema: number; // Average EMA
+  avg_au_ema_fast: number; // Average fast EMA
   minutes_observed: number; // Data points count
 }
 
+// History API Types
+export type HistoryGranularity = 'minute' | 'hour' | 'day';
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+export interface ActiveUsersHistoryPoint {
+  timestamp: string; // Bucket başlangıcı (ISO, UTC)
+  local_time: string; // Bucket başlangıcı, shop timezone'unda (ISO, offset'li)
+  au_raw: number | null; // Bucket ortalaması; veri yoksa null
+  au_raw_p95: number | null; // Dakika ortalamalarının p95'i (minute granularity'de null)
+  au_raw_max: number | null; // Bucket'taki en yüksek tick örneği
+  au_raw_max_at: string | null; // Peak'in dakikası (ISO)
+  au_ema_fast: number | null;
+  au_ema_slow: number | null;
+  minutes_observed: number; // 0 ise bucket boşluktur (gap)
+}
+
+export interface ActiveUsersHistory {
+  shop: string;
+  timezone: string; // IANA timezone
+  granularity: HistoryGranularity;
+  from: string; // ISO, dahil
+  to: string; // ISO, hariç
+  points: ActiveUsersHistoryPoint[];
+  gaps: number; // Verisi olmayan bucket sayısı
+}
+
 // Redis Data Types
 export interface RedisPresenceData {
   visitor_id: string;
-  session_id?: string;
+  session_id?: string | undefined;
+  tab_id?: string | undefined;
   timestamp: number;
   page_path: string;
-  user_agent?: string;
-  ip_hash?: string;
+  user_agent?: string | undefined;
+  ip_hash?: string | undefined;
+  country?: string | undefined;
+  referrer?: string | undefined;
+  started_at?: number | undefined; // Online / session başlangıcı (ms), upsert script'i ekler
 }
 
 export interface RedisEMAState {
@@ -106,37 +195,94 @@ export interface RedisEMAState {
 }
 
 // API Request/Response Types
-export interface PresenceBeatRequest {
-  shop: string;
-  visitor_id: string;
-  session_id?: string;
-  page_path: string;
-  user_agent?: string;
-  viewport?: {
-    width: number;
-    height: number;
-  };
-  screen?: {
-    width: number;
-    height: number;
-  };
-}
-
-export interface PresenceByeRequest {
-  shop: string;
-  visitor_id: string;
-  session_id?: string;
-  page_path: string;
-}
+export type PresenceBeatRequest = z.infer<typeof presenceBeatRequestSchema>;
+
+export type PresenceByeRequest = z.infer<typeof presenceByeRequestSchema>;
+
+// Shop.settings.active_users
+export type ShopActiveUsersSettings = z.infer<typeof shopActiveUsersSettingsSchema>;
 
 export interface ActiveUsersStreamResponse {
   shop: string;
   timestamp: number;
   au_raw: number;
+  au_engaged: number; // Aktif etkileşimdeki visitor sayısı
   au_ema_fast: number;
   au_ema_slow: number;
   trend: 'up' | 'down' | 'stable';
   trend_strength: number;
+  top_pages?: DimensionCount[] | undefined; // En çok visitor'ı olan sayfalar
+  page_types?: DimensionCount[] | undefined; // Sayfa tipine göre visitor dağılımı
+}
+
+// Presence Dimension Types
+export type PresenceDimension =
+  | 'page_path'
+  | 'page_type'
+  | 'device'
+  | 'browser'
+  | 'country'
+  | 'referrer'
+  | 'engagement';
+
+export type BreakdownDimension = Exclude<PresenceDimension, 'page_path' | 'page_type' | 'engagement'>;
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet' | 'other' | 'unknown';
+
+export type ReferrerChannel = 'direct' | 'search' | 'social' | 'email' | 'internal' | 'referral';
+
+export type PageType =
+  | 'home'
+  | 'product'
+  | 'collection'
+  | 'cart'
+  | 'checkout'
+  | 'search'
+  | 'account'
+  | 'blog'
+  | 'page'
+  | 'other';
+
+export interface DimensionCount {
+  value: string;
+  visitors: number; // Bu değerde olan online visitor sayısı
+}
+
+export type TopDimensionQuery = z.infer<typeof topDimensionQuerySchema>;
+
+export type BreakdownQuery = z.infer<typeof breakdownQuerySchema>;
+
+// Canlı visitor dağılımları (cihaz, tarayıcı, ülke, trafik kaynağı)
+export interface ActiveUsersBreakdowns {
+  shop: string;
+  timestamp: number;
+  active_visitors: number;
+  device: DimensionCount[];
+  browser: DimensionCount[];
+  country: DimensionCount[];
+  referrer: DimensionCount[];
+}
+
+// Live stream: client → server mesajları
+export type ActiveUsersStreamClientMessage = z.infer<typeof streamClientMessageSchema>;
+
+// Live stream: server → client frame'leri
+export type ActiveUsersStreamFrame =
+  | { type: 'snapshot' | 'update'; data: ActiveUsersStreamResponse }
+  | { type: 'subscribed' | 'unsubscribed'; shops: string[] }
+  | { type: 'pong'; timestamp: number }
+  | { type: 'error'; message: string };
+
+// eventId sadece replay buffer'ına yazılan (ema_update) güncellemelerde bulunur
+export type ActiveUsersStreamListener = (
+  update: ActiveUsersStreamResponse,
+  eventId?: string | undefined
+) => void;
+
+// Replay buffer kaydı (Redis Stream entry id → güncelleme)
+export interface ActiveUsersStreamEvent {
+  id: string;
+  data: ActiveUsersStreamResponse;
 }
 
 // Error Types
@@ -148,28 +294,34 @@ export interface ActiveUsersError {
 }
 
 // Configuration Types
-export interface ActiveUsersConfig {
-  heartbeat_interval_ms: number;
-  ttl_ms: number;
-  tick_interval_ms: number;
-  ema_tau_fast: number;
-  ema_tau_slow: number;
-  enable_redis_pubsub: boolean;
-  enable_database_logging: boolean;
-  batch_size: number;
-  max_retry_attempts: number;
-}
+export type ActiveUsersConfig = z.infer<typeof activeUsersConfigSchema>;
 
 // Event Types
+export type PresenceEventType = 'visitor_online' | 'visitor_offline' | 'session_start' | 'session_end';
+
+// unload: son sekme kapandı, timeout: heartbeat gelmedi, manual: setVisitorOffline / setSessionOffline
+export type PresenceEndReason = 'unload' | 'timeout' | 'manual';
+
+export interface PresenceEventData {
+  page_path?: string | undefined;
+  tab_id?: string | undefined;
+  reason?: PresenceEndReason | undefined; // Sadece visitor_offline / session_end
+  started_at?: number | undefined; // Online / session başlangıcı (ms)
+  last_seen?: number | undefined; // Son heartbeat (ms)
+  duration_ms?: number | undefined; // last_seen - started_at
+}
+
 export interface PresenceEvent {
-  type: 'visitor_online' | 'visitor_offline' | 'session_start' | 'session_end';
+  type: PresenceEventType;
   shop: string;
   visitor_id: string;
-  session_id?: string;
+  session_id?: string | undefined;
   timestamp: number;
-  data: Record<string, unknown>;
+  data: PresenceEventData;
 }
 
+export type PresenceEventListener = (event: PresenceEvent) => void;
+
 export interface EMACalculationEvent {
   shop: string;
   timestamp: number;
@@ -180,16 +332,48 @@ export interface EMACalculationEvent {
   trend_strength: number;
 }
 
+// Anomaly Detection Types
+export type AnomalySensitivity = ActiveUsersConfig['anomaly_sensitivity'];
+export type AnomalyKind = 'spike' | 'drop';
+// critical: drop'ta au_raw sıfıra indi (tracking kesintisi veya site erişilemez)
+export type AnomalySeverity = 'warning' | 'critical';
+
+export interface AnomalyThresholds {
+  spike_ratio: number;
+  drop_ratio: number;
+  min_baseline: number;
+  confirm_ticks: number;
+}
+
+export interface ActiveUsersAlert {
+  id: string;
+  shop: string;
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  sensitivity: Exclude<AnomalySensitivity, 'off'>;
+  timestamp: number;
+  au_raw: number;
+  au_ema_fast: number;
+  au_ema_slow: number;
+  deviation: number; // (fast - slow) / baseline
+  trend: TrendDirection;
+  trend_strength: number;
+}
+
+export type AlertsQuery = z.infer<typeof alertsQuerySchema>;
+
 // Utility Types
 export type TrendDirection = 'up' | 'down' | 'stable';
 export type PresenceStatus = 'online' | 'offline' | 'unknown';
+export type EngagementState = 'active' | 'idle' | 'hidden';
 export type EMACalculationMethod = 'exponential' | 'linear' | 'adaptive';
 
 // Database Row Types
 export interface ActiveUsersMinutelyRow {
   shop: string;
   bucket_ts: string; // ISO timestamp
-  au_raw: number;
+  au_raw: number; // Dakika içindeki tick örneklerinin ortalaması
+  au_raw_max: number; // Dakika içindeki en yüksek tick örneği
   total_tabs: number;
   au_ema_fast: number;
   au_ema_slow: number;
@@ -205,6 +389,7 @@ export interface ActiveUsersDailyRow {
   max_au_raw: number;
   max_au_raw_at: string;
   avg_au_ema: number;
+  avg_au_ema_fast?: number | undefined; // Eski rollup satırlarında yok
   minutes_observed: number;
 }
 
@@ -214,4 +399,6 @@ export interface ActiveUsersStateRow {
   ema_fast: number;
   ema_slow: number;
   last_au_raw: number;
+  method?: EMACalculationMethod | null | undefined; // Eski checkpoint satırlarında yok
+  history?: Array<[number, number]> | null | undefined; // JSONB, linear / adaptive örnekleri
 }
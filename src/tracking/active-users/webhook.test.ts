@@ -0,0 +1,44 @@
+import { isPublicAddress, validateWebhookUrl } from './webhook';
+
+describe('isPublicAddress', () => {
+  it.each([
+    ['8.8.8.8', true],
+    ['2606:4700::1111', true],
+    ['::ffff:8.8.8.8', true],
+    ['10.1.2.3', false],
+    ['172.20.0.1', false],
+    ['192.168.1.1', false],
+    ['127.0.0.1', false],
+    ['169.254.169.254', false],
+    ['100.64.0.1', false],
+    ['0.0.0.0', false],
+    ['224.0.0.1', false],
+    ['::1', false],
+    ['::', false],
+    ['fe80::1', false],
+    ['fd00::1', false],
+    ['::ffff:127.0.0.1', false],
+    ['::ffff:a9fe:a9fe', false],
+    ['not-an-ip', false],
+  ])('%s → %s', (address, expected) => {
+    expect(isPublicAddress(address)).toBe(expected);
+  });
+});
+
+describe('validateWebhookUrl', () => {
+  it.each([
+    ['https://hooks.example.com/alerts', null],
+    ['https://8.8.8.8/alerts', null],
+    ['http://hooks.example.com/alerts', 'alert_webhook_url must be an https URL'],
+    ['ftp://hooks.example.com/alerts', 'alert_webhook_url must be an https URL'],
+    ['https://localhost/alerts', 'alert_webhook_url must not point to localhost'],
+    ['https://api.localhost/alerts', 'alert_webhook_url must not point to localhost'],
+    ['https://127.0.0.1/alerts', 'alert_webhook_url must not point to a private address'],
+    ['https://169.254.169.254/latest', 'alert_webhook_url must not point to a private address'],
+    ['https://[::1]/alerts', 'alert_webhook_url must not point to a private address'],
+    ['https://[::ffff:10.0.0.1]/', 'alert_webhook_url must not point to a private address'],
+    ['not a url', 'alert_webhook_url must be a valid URL'],
+  ])('%s', (url, expected) => {
+    expect(validateWebhookUrl(url)).toBe(expected);
+  });
+});
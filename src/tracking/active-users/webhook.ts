@@ -0,0 +1,161 @@
+/**
+ * Alert Webhook Delivery
+ *
+ * Bu dosya alert webhook'larının mağazanın ayarladığı URL'e güvenli şekilde
+ * POST edilmesini sağlar. URL mağaza ayarlarından geldiği için sunucunun
+ * iç ağa istek atmasına (SSRF) karşı korunur:
+ *
+ * - Sadece https kabul edilir; localhost ve özel / loopback / link-local
+ *   IP literal'leri reddedilir (validateWebhookUrl)
+ * - Host adı bağlantı anında çözülür ve çözülen adreslerden biri bile public
+ *   değilse bağlantı kurulmaz (DNS rebinding'e karşı kontrol ile bağlantı
+ *   aynı çözümlemeyi kullanır)
+ * - Redirect'ler takip edilmez
+ */
+
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { request } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Public olmayan adres aralıkları (RFC 1918, loopback, link-local, CGNAT, multicast, ...)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // unspecified ve loopback
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Adresin public (internet üzerinden yönlendirilebilir) olup olmadığını kontrol eder
+ * @param address - IPv4 veya IPv6 adresi
+ * @returns Public ise true; geçersiz adreslerde false
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 adresleri (::ffff:a.b.c.d) BlockList tarafından IPv4 kurallarıyla eşleşir
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Webhook URL'ini doğrular (şema ve IP literal / localhost host'ları)
+ * @param url - Webhook URL'i
+ * @returns Hata mesajı veya geçerliyse null
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'alert_webhook_url must be a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'alert_webhook_url must be an https URL';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'alert_webhook_url must not point to localhost';
+  }
+  if (isIP(host) !== 0 && !isPublicAddress(host)) {
+    return 'alert_webhook_url must not point to a private address';
+  }
+
+  return null;
+}
+
+/**
+ * Sadece public adreslere bağlanan DNS lookup'ı. Host'un çözüldüğü
+ * adreslerden biri bile public değilse hata döner.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    const first = addresses[0];
+    if (blocked || !first) {
+      const reason = blocked ? `non-public address ${blocked.address}` : 'no address';
+      callback(new Error(`Webhook host ${hostname} resolves to ${reason}`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Webhook'a JSON gövde POST eder
+ * @param url - Webhook URL'i (validateWebhookUrl'den geçmiş olmalı)
+ * @param headers - İstek header'ları
+ * @param body - JSON gövde
+ * @param timeoutMs - İstek zaman aşımı
+ * @returns HTTP durum kodu
+ * @throws Error - URL geçersizse, host public bir adrese çözülmüyorsa veya ağ hatasında
+ */
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  const invalid = validateWebhookUrl(url);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  return await new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        timeout: timeoutMs,
+      },
+      response => {
+        // Gövde okunmaz; bağlantının serbest kalması için akış tüketilir
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+
+    req.on('timeout', () =>
+      req.destroy(new Error(`Webhook request timed out after ${timeoutMs}ms`))
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Client Configuration Provider
+ *
+ * Bu dosya theme extension'ın /config.json üzerinden aldığı mağaza bazlı
+ * tracking konfigürasyonunu üretir. Konfigürasyon Shop.settings.tracking ve
+ * Plan.features alanlarından türetilir; böylece merchant'lar theme
+ * extension'ı yeniden deploy etmeden tracking davranışını değiştirebilir.
+ *
+ * Bilinmeyen mağazalar veya veritabanı hataları için güvenli varsayılanlar
+ * döndürülür. Shop ve plan kayıtları DatabaseManager'ın paylaşılan,
+ * boyutu sınırlı ShopDirectory cache'inden okunur.
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseManager } from '../../database/database-manager';
+import { EventType, Plan, Shop } from '../../types';
+import { createLogger } from '../../utils/logger';
+import { HEARTBEAT_MS } from '../active-users/constants';
+import { shopTrackingSettingsSchema } from './schemas';
+import { ClientConfigDocument, ClientTrackingConfig, ConsentMode } from './types';
+import { BASE_EVENT_TYPES, CLIENT_CONFIG_VERSION, PLAN_FEATURE_EVENTS } from './constants';
+
+const logger = createLogger('client-config');
+
+type ResolvedShopConfig = Omit<ClientTrackingConfig, 'endpoints'>;
+
+/**
+ * Bilinmeyen mağazalar için varsayılan konfigürasyon
+ */
+const DEFAULT_CONSENT_MODE: ConsentMode = 'opt_in';
+const DEFAULT_SAMPLING_RATE = 1;
+
+export class ClientConfigProvider {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Mağaza için client konfigürasyonunu getirir
+   * @param shop - Mağaza domain'i
+   * @param baseUrl - Endpoint URL'leri için kullanılacak origin
+   * @returns Konfigürasyon ve ETag
+   */
+  public async getConfig(shop: string, baseUrl: string): Promise<ClientConfigDocument> {
+    const resolved = await this.resolveShopConfig(shop);
+    const config: ClientTrackingConfig = {
+      ...resolved,
+      endpoints: {
+        collect: `${baseUrl}/collect`,
+        config: `${baseUrl}/config.json?shop=${encodeURIComponent(shop)}`,
+        heartbeat: `${baseUrl}/api/heartbeat`,
+        page_unload: `${baseUrl}/api/page-unload`,
+      },
+    };
+
+    return {
+      config,
+      etag: this.computeETag(config),
+    };
+  }
+
+  /**
+   * Mağaza cache'ini temizler (settings değiştiğinde çağrılır)
+   * @param shop - Mağaza domain'i, verilmezse tüm cache
+   */
+  public invalidate(shop?: string): void {
+    this.dbManager.getShopDirectory().invalidate(shop);
+  }
+
+  /**
+   * Shop.settings ve Plan.features'tan konfigürasyonu çözümler (cache'li)
+   * @param shop - Mağaza domain'i
+   * @returns Endpoint'ler hariç konfigürasyon
+   */
+  private async resolveShopConfig(shop: string): Promise<ResolvedShopConfig> {
+    try {
+      const { shop: shopRecord, plan } = await this.dbManager.getShopDirectory().getShop(shop);
+
+      return shopRecord
+        ? this.buildShopConfig(shop, shopRecord, plan)
+        : this.buildDefaultConfig(shop);
+    } catch (error) {
+      logger.warn(`Failed to load client config for shop ${shop}, using defaults:`, error);
+      return this.buildDefaultConfig(shop);
+    }
+  }
+
+  /**
+   * Kayıtlı mağaza için konfigürasyon oluşturur
+   * @param shop - Mağaza domain'i
+   * @param shopRecord - Shop kaydı
+   * @param plan - Mağazanın planı
+   * @returns Konfigürasyon
+   */
+  private buildShopConfig(shop: string, shopRecord: Shop, plan: Plan | null): ResolvedShopConfig {
+    const allowedEvents = new Set<EventType>(BASE_EVENT_TYPES);
+    for (const feature of plan?.features ?? []) {
+      for (const eventType of PLAN_FEATURE_EVENTS[feature] ?? []) {
+        allowedEvents.add(eventType);
+      }
+    }
+
+    const parsed = shopTrackingSettingsSchema.safeParse(shopRecord.settings?.tracking ?? {});
+    if (!parsed.success) {
+      logger.warn(`Invalid tracking settings for shop ${shop}, ignoring overrides`, {
+        issues: parsed.error.issues,
+      });
+    }
+    const settings = parsed.success ? parsed.data : {};
+
+    // Merchant plan dışı event açamaz, sadece daraltabilir
+    const requested = settings.enabled_events ?? [...allowedEvents];
+    const disabled = new Set(settings.disabled_events ?? []);
+    const events = requested.filter(
+      eventType => allowedEvents.has(eventType) && !disabled.has(eventType)
+    );
+
+    return {
+      version: CLIENT_CONFIG_VERSION,
+      shop,
+      enabled: settings.enabled ?? true,
+      events,
+      heartbeat_interval_ms: settings.heartbeat_interval_ms ?? HEARTBEAT_MS,
+      sampling_rate: settings.sampling_rate ?? DEFAULT_SAMPLING_RATE,
+      consent_mode: settings.consent_mode ?? DEFAULT_CONSENT_MODE,
+    };
+  }
+
+  /**
+   * Bilinmeyen mağaza için güvenli varsayılan konfigürasyon
+   * @param shop - Mağaza domain'i
+   * @returns Konfigürasyon
+   */
+  private buildDefaultConfig(shop: string): ResolvedShopConfig {
+    return {
+      version: CLIENT_CONFIG_VERSION,
+      shop,
+      enabled: true,
+      events: [...BASE_EVENT_TYPES],
+      heartbeat_interval_ms: HEARTBEAT_MS,
+      sampling_rate: DEFAULT_SAMPLING_RATE,
+      consent_mode: DEFAULT_CONSENT_MODE,
+    };
+  }
+
+  /**
+   * Konfigürasyon içeriğinden strong ETag üretir
+   * @param config - Konfigürasyon
+   * @returns ETag header değeri
+   */
+  private computeETag(config: ClientTrackingConfig): string {
+    const hash = createHash('sha1').update(JSON.stringify(config)).digest('base64url');
+    return `"${hash}"`;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Core Tracking Constants
+ *
+ * Bu dosya /collect endpoint'i ve event ingestion için kullanılan
+ * sabit değerleri içerir.
+ */
+
+import { EventType } from '../../types';
+
+// Batch Limits
+export const COLLECT_MAX_BATCH_SIZE = 50; // Tek istekte kabul edilen maksimum event
+
+// Timestamp Validation
+export const MAX_CLIENT_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000; // 24 saat - daha fazlası server zamanı ile değiştirilir
+
+// Field Length Limits
+export const MAX_PAGE_PATH_LENGTH = 2048;
+export const MAX_PAGE_TITLE_LENGTH = 512;
+export const MAX_REFERRER_LENGTH = 2048;
+export const MAX_USER_AGENT_LENGTH = 1024;
+export const MAX_LANG_LENGTH = 35; // BCP 47 language tag
+export const MAX_SESSION_ID_LENGTH = 128;
+
+// Client Config (/config.json)
+export const CLIENT_CONFIG_VERSION = 1;
+export const CLIENT_CONFIG_MAX_AGE_SECONDS = 300; // 5 dakika - browser/CDN cache
+export const MIN_CLIENT_HEARTBEAT_MS = 5_000;
+export const MAX_CLIENT_HEARTBEAT_MS = 60_000;
+
+// Plan feature → event type eşlemesi
+export const PLAN_FEATURE_EVENTS: Record<string, readonly EventType[]> = {
+  ecommerce_tracking: [EventType.ADD_TO_CART, EventType.CHECKOUT_START, EventType.PURCHASE],
+  behavior_tracking: [EventType.CLICK, EventType.SCROLL, EventType.VIEWPORT],
+};
+
+// Her planda açık olan temel event'ler
+export const BASE_EVENT_TYPES: readonly EventType[] = [
+  EventType.SESSION_START,
+  EventType.SESSION_END,
+  EventType.PAGE_VIEW,
+  EventType.PAGE_UNLOAD,
+  EventType.PAGE_HIDE,
+  EventType.PAGE_SHOW,
+  EventType.HEARTBEAT,
+];
@@ -0,0 +1,184 @@
+/**
+ * Core Tracking Module - Main Export
+ *
+ * Bu dosya /collect endpoint'ine gelen event'lerin doğrulanması,
+ * EventData formatına dönüştürülmesi ve OLAP veritabanına yazılmasından
+ * sorumlu EventCollector sınıfını içerir.
+ */
+
+export {
+  trackingEventSchema,
+  collectEventsSchema,
+  normalizeTrackingPayload,
+  shopTrackingSettingsSchema,
+} from './schemas';
+export { ClientConfigProvider } from './client-config';
+export type {
+  ValidatedTrackingEvent,
+  CollectContext,
+  CollectValidationIssue,
+  ConsentMode,
+  ClientTrackingConfig,
+  ClientConfigDocument,
+} from './types';
+export {
+  COLLECT_MAX_BATCH_SIZE,
+  MAX_CLIENT_CLOCK_SKEW_MS,
+  CLIENT_CONFIG_MAX_AGE_SECONDS,
+} from './constants';
+
+import { ZodError } from 'zod';
+import { DatabaseManager } from '../../database/database-manager';
+import { CollectResponse, EventData } from '../../types';
+import { hashIp } from '../utils/privacy';
+import { collectEventsSchema } from './schemas';
+import { CollectContext, CollectValidationIssue, ValidatedTrackingEvent } from './types';
+import { MAX_CLIENT_CLOCK_SKEW_MS } from './constants';
+
+/**
+ * Event alanlarından EventData kolonlarına karşılık gelenler.
+ * Geri kalan alanlar event_data içine yazılır.
+ */
+const BASE_EVENT_FIELDS = new Set([
+  'type',
+  'shop',
+  'visitor_id',
+  'session_id',
+  'page_path',
+  'page_url',
+  'page_title',
+  'referrer',
+  'timestamp',
+  'user_agent',
+  'lang',
+  'consent',
+]);
+
+/**
+ * Geçersiz /collect payload'ı için fırlatılan hata
+ */
+export class CollectValidationError extends Error {
+  public readonly issues: CollectValidationIssue[];
+
+  constructor(issues: CollectValidationIssue[]) {
+    super(
+      issues
+        .map(
+          issue => `events[${issue.index}]${issue.path ? `.${issue.path}` : ''}: ${issue.message}`
+        )
+        .join('; ')
+    );
+    this.name = 'CollectValidationError';
+    this.issues = issues;
+  }
+}
+
+export class EventCollector {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * /collect body'sini doğrular ve event'leri kaydeder
+   * @param body - Tek event, event dizisi veya { events: [...] }
+   * @param context - İstek bağlamı (IP, user agent)
+   * @returns Kabul edilen event sayısı ve kimlikleri
+   */
+  public async collect(body: unknown, context: CollectContext = {}): Promise<CollectResponse> {
+    const events = this.parseEvents(body);
+    const receivedAt = context.received_at ?? Date.now();
+    const ipHash = hashIp(context.ip);
+
+    const rows = events.map(event =>
+      this.toEventData(event, receivedAt, ipHash, context.user_agent)
+    );
+    const created = await this.dbManager.getClickHouse().createEvents(rows);
+
+    return {
+      accepted: created.length,
+      event_ids: created.map(event => event.id),
+    };
+  }
+
+  /**
+   * Body'yi event dizisine çevirir ve doğrular
+   * @param body - Ham body
+   * @returns Doğrulanmış event'ler
+   */
+  private parseEvents(body: unknown): ValidatedTrackingEvent[] {
+    let candidates: unknown = body;
+
+    if (typeof body === 'object' && body !== null && !Array.isArray(body) && 'events' in body) {
+      candidates = (body as { events: unknown }).events;
+    } else if (!Array.isArray(body)) {
+      candidates = [body];
+    }
+
+    try {
+      return collectEventsSchema.parse(candidates);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new CollectValidationError(
+          error.issues.map(issue => {
+            const [index, ...path] = issue.path;
+            return {
+              index: typeof index === 'number' ? index : 0,
+              path: path.join('.'),
+              message: issue.message,
+            };
+          })
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Doğrulanmış event'i EventData satırına dönüştürür
+   * @param event - Doğrulanmış event
+   * @param receivedAt - Server'ın isteği aldığı zaman
+   * @param ipHash - Hash'lenmiş IP
+   * @param fallbackUserAgent - Header'dan gelen user agent
+   * @returns EventData
+   */
+  private toEventData(
+    event: ValidatedTrackingEvent,
+    receivedAt: number,
+    ipHash: string | undefined,
+    fallbackUserAgent: string | undefined
+  ): EventData {
+    const eventData: Record<string, unknown> = { page_title: event.page_title, lang: event.lang };
+
+    for (const [key, value] of Object.entries(event)) {
+      if (!BASE_EVENT_FIELDS.has(key) && value !== undefined) {
+        eventData[key] = value;
+      }
+    }
+
+    // Client saati çok kaymışsa server zamanını kullan
+    const timestamp =
+      Math.abs(event.timestamp - receivedAt) > MAX_CLIENT_CLOCK_SKEW_MS
+        ? receivedAt
+        : event.timestamp;
+    const userAgent = event.user_agent || fallbackUserAgent;
+
+    const row: EventData = {
+      shop_id: event.shop,
+      user_id: event.visitor_id,
+      session_id: event.session_id,
+      event_type: event.type,
+      event_data: eventData,
+      timestamp: new Date(timestamp),
+      page_url: event.page_url ?? event.page_path,
+    };
+
+    if (event.referrer) row.referrer = event.referrer;
+    if (userAgent) row.user_agent = userAgent;
+    if (ipHash) row.ip_hash = ipHash;
+    if (event.consent !== undefined) row.consent = event.consent;
+
+    return row;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Tracking Event Validation Schemas
+ *
+ * Bu dosya /collect endpoint'ine gelen TrackingEvent payload'ları için
+ * zod şemalarını içerir. Her EventType için ayrı bir şema tanımlanır ve
+ * `type` alanı üzerinden discriminated union ile doğrulanır.
+ *
+ * Theme extension (tracking-main.js) camelCase alanlar (sessionId, userId,
+ * page.url, userAgent, language) gönderdiği için payload doğrulamadan önce
+ * TrackingEvent formatına normalize edilir.
+ */
+
+import { z } from 'zod';
+import { EventType } from '../../types';
+import {
+  MIN_SHOP_ID_LENGTH,
+  MAX_SHOP_ID_LENGTH,
+  MIN_VISITOR_ID_LENGTH,
+  MAX_VISITOR_ID_LENGTH,
+} from '../active-users/constants';
+import {
+  COLLECT_MAX_BATCH_SIZE,
+  MAX_PAGE_PATH_LENGTH,
+  MAX_PAGE_TITLE_LENGTH,
+  MAX_REFERRER_LENGTH,
+  MAX_USER_AGENT_LENGTH,
+  MAX_LANG_LENGTH,
+  MAX_SESSION_ID_LENGTH,
+  MIN_CLIENT_HEARTBEAT_MS,
+  MAX_CLIENT_HEARTBEAT_MS,
+} from './constants';
+
+/**
+ * Tüm event'lerde ortak olan alanlar
+ */
+const baseEventSchema = z.object({
+  shop: z.string().trim().min(MIN_SHOP_ID_LENGTH).max(MAX_SHOP_ID_LENGTH),
+  visitor_id: z.string().trim().min(MIN_VISITOR_ID_LENGTH).max(MAX_VISITOR_ID_LENGTH),
+  session_id: z.string().trim().min(1).max(MAX_SESSION_ID_LENGTH),
+  page_path: z.string().max(MAX_PAGE_PATH_LENGTH).default('/'),
+  page_url: z.string().max(MAX_PAGE_PATH_LENGTH).optional(),
+  page_title: z.string().max(MAX_PAGE_TITLE_LENGTH).default(''),
+  referrer: z.string().max(MAX_REFERRER_LENGTH).default(''),
+  timestamp: z.number().int().positive(),
+  user_agent: z.string().max(MAX_USER_AGENT_LENGTH).default(''),
+  lang: z.string().max(MAX_LANG_LENGTH).default(''),
+  consent: z.boolean().optional(),
+});
+
+const idSchema = z
+  .union([z.string().min(1).max(128), z.number().int().nonnegative()])
+  .transform(String);
+const currencySchema = z.string().length(3).toUpperCase();
+
+/**
+ * EventType bazlı şemalar
+ */
+const sessionStartSchema = baseEventSchema.extend({
+  type: z.literal(EventType.SESSION_START),
+});
+
+const sessionEndSchema = baseEventSchema.extend({
+  type: z.literal(EventType.SESSION_END),
+  duration_ms: z.number().nonnegative().optional(),
+});
+
+const pageViewSchema = baseEventSchema.extend({
+  type: z.literal(EventType.PAGE_VIEW),
+});
+
+const pageUnloadSchema = baseEventSchema.extend({
+  type: z.literal(EventType.PAGE_UNLOAD),
+  time_on_page_ms: z.number().nonnegative().optional(),
+});
+
+const pageHideSchema = baseEventSchema.extend({
+  type: z.literal(EventType.PAGE_HIDE),
+});
+
+const pageShowSchema = baseEventSchema.extend({
+  type: z.literal(EventType.PAGE_SHOW),
+});
+
+const addToCartSchema = baseEventSchema.extend({
+  type: z.literal(EventType.ADD_TO_CART),
+  product_id: idSchema,
+  variant_id: idSchema.optional(),
+  quantity: z.number().int().positive().default(1),
+  price: z.number().nonnegative().optional(),
+  currency: currencySchema.optional(),
+});
+
+const checkoutStartSchema = baseEventSchema.extend({
+  type: z.literal(EventType.CHECKOUT_START),
+  cart_token: z.string().max(128).optional(),
+  total: z.number().nonnegative().optional(),
+  currency: currencySchema.optional(),
+  item_count: z.number().int().nonnegative().optional(),
+});
+
+const purchaseSchema = baseEventSchema.extend({
+  type: z.literal(EventType.PURCHASE),
+  order_id: idSchema,
+  total: z.number().nonnegative(),
+  currency: currencySchema,
+  item_count: z.number().int().nonnegative().optional(),
+});
+
+const clickSchema = baseEventSchema.extend({
+  type: z.literal(EventType.CLICK),
+  selector: z.string().max(512).optional(),
+  element: z.string().max(64).optional(),
+  text: z.string().max(256).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+});
+
+const scrollSchema = baseEventSchema.extend({
+  type: z.literal(EventType.SCROLL),
+  depth_percent: z.number().min(0).max(100),
+});
+
+const viewportSchema = baseEventSchema.extend({
+  type: z.literal(EventType.VIEWPORT),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+const heartbeatSchema = baseEventSchema.extend({
+  type: z.literal(EventType.HEARTBEAT),
+  duration: z.number().nonnegative().optional(),
+});
+
+/**
+ * Theme extension payload'ını TrackingEvent formatına çevirir
+ * @param raw - Ham payload
+ * @returns Normalize edilmiş payload
+ */
+export function normalizeTrackingPayload(raw: unknown): unknown {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return raw;
+  }
+
+  const { sessionId, userId, userAgent, language, page, url, title, ...rest } = raw as Record<
+    string,
+    unknown
+  >;
+  const normalized: Record<string, unknown> = { ...rest };
+
+  if (normalized['session_id'] === undefined && sessionId !== undefined) {
+    normalized['session_id'] = sessionId;
+  }
+  if (normalized['visitor_id'] === undefined && userId !== undefined) {
+    normalized['visitor_id'] = userId;
+  }
+  if (normalized['user_agent'] === undefined && userAgent !== undefined) {
+    normalized['user_agent'] = userAgent;
+  }
+  if (normalized['lang'] === undefined && language !== undefined) {
+    normalized['lang'] = language;
+  }
+
+  const pageInfo = (typeof page === 'object' && page !== null ? page : {}) as Record<
+    string,
+    unknown
+  >;
+  const pageUrl = pageInfo['url'] ?? url;
+
+  if (typeof pageUrl === 'string') {
+    normalized['page_url'] ??= pageUrl;
+    normalized['page_path'] ??= extractPath(pageUrl);
+  }
+  if (normalized['page_title'] === undefined && (pageInfo['title'] ?? title) !== undefined) {
+    normalized['page_title'] = pageInfo['title'] ?? title;
+  }
+  if (normalized['referrer'] === undefined && pageInfo['referrer'] !== undefined) {
+    normalized['referrer'] = pageInfo['referrer'];
+  }
+
+  return normalized;
+}
+
+/**
+ * URL'den path kısmını çıkarır
+ * @param url - Tam URL veya path
+ * @returns Path (query string dahil)
+ */
+function extractPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Tüm EventType'ları kapsayan tracking event şeması
+ */
+export const trackingEventSchema = z.preprocess(
+  normalizeTrackingPayload,
+  z.discriminatedUnion('type', [
+    sessionStartSchema,
+    sessionEndSchema,
+    pageViewSchema,
+    pageUnloadSchema,
+    pageHideSchema,
+    pageShowSchema,
+    addToCartSchema,
+    checkoutStartSchema,
+    purchaseSchema,
+    clickSchema,
+    scrollSchema,
+    viewportSchema,
+    heartbeatSchema,
+  ])
+);
+
+/**
+ * /collect batch şeması
+ */
+export const collectEventsSchema = z.array(trackingEventSchema).min(1).max(COLLECT_MAX_BATCH_SIZE);
+
+/**
+ * Shop.settings.tracking şeması (merchant tarafından düzenlenebilir alanlar)
+ */
+export const shopTrackingSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  enabled_events: z.array(z.nativeEnum(EventType)).optional(),
+  disabled_events: z.array(z.nativeEnum(EventType)).optional(),
+  heartbeat_interval_ms: z
+    .number()
+    .int()
+    .min(MIN_CLIENT_HEARTBEAT_MS)
+    .max(MAX_CLIENT_HEARTBEAT_MS)
+    .optional(),
+  sampling_rate: z.number().min(0).max(1).optional(),
+  consent_mode: z.enum(['disabled', 'opt_in', 'opt_out']).optional(),
+});
@@ -0,0 +1,51 @@
+/**
+ * Core Tracking Types
+ *
+ * Bu dosya event ingestion (/collect) için kullanılan tipleri içerir.
+ * Doğrulanmış event tipleri zod şemalarından türetilir.
+ */
+
+import { z } from 'zod';
+import { EventType } from '../../types';
+import { trackingEventSchema } from './schemas';
+
+// Validated Event Types
+export type ValidatedTrackingEvent = z.infer<typeof trackingEventSchema>;
+
+// Request Context Types
+export interface CollectContext {
+  ip?: string | undefined;
+  user_agent?: string | undefined;
+  received_at?: number | undefined;
+}
+
+// Error Types
+export interface CollectValidationIssue {
+  index: number;
+  path: string;
+  message: string;
+}
+
+// Client Config Types
+export type ConsentMode = 'disabled' | 'opt_in' | 'opt_out';
+
+export interface ClientTrackingConfig {
+  version: number;
+  shop: string;
+  enabled: boolean;
+  events: EventType[];
+  heartbeat_interval_ms: number;
+  sampling_rate: number; // 0-1 arası
+  consent_mode: ConsentMode;
+  endpoints: {
+    collect: string;
+    config: string;
+    heartbeat: string;
+    page_unload: string;
+  };
+}
+
+export interface ClientConfigDocument {
+  config: ClientTrackingConfig;
+  etag: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Geo Helpers
+ *
+ * Bu dosya IP adresinden ülke çözümlemesi için yardımcı fonksiyonları
+ * içerir. Lookup geoip-lite'ın yerel veritabanı ile yapılır; ham IP adresi
+ * saklanmaz, sadece ülke kodu döndürülür.
+ */
+
+import geoip from 'geoip-lite';
+
+/**
+ * IP adresinin ülkesini bulur
+ * @param ip - Ham IP adresi
+ * @returns ISO 3166-1 alpha-2 ülke kodu veya bulunamazsa undefined
+ */
+export function lookupCountry(ip: string | undefined): string | undefined {
+  if (!ip) return undefined;
+
+  // IPv4-mapped IPv6 adresleri (::ffff:1.2.3.4) IPv4 olarak aranır
+  const address = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+  return geoip.lookup(address)?.country || undefined;
+}
@@ -0,0 +1,20 @@
+/**
+ * Privacy Helpers
+ *
+ * Bu dosya PII içeren alanların (IP adresi vb.) hash'lenmesi için
+ * yardımcı fonksiyonları içerir. Ham IP adresi hiçbir zaman saklanmaz.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * IP adresini salt ile hash'ler
+ * @param ip - Ham IP adresi
+ * @returns SHA-256 hash (hex) veya IP yoksa undefined
+ */
+export function hashIp(ip: string | undefined): string | undefined {
+  if (!ip) return undefined;
+
+  const salt = process.env['IP_HASH_SALT'] || '';
+  return createHash('sha256').update(`${salt}:${ip}`).digest('hex');
+}
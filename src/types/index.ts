@@ -64,6 +64,8 @@ export enum EventType {
   SESSION_END = 'session_end',
   PAGE_VIEW = 'page_view',
   PAGE_UNLOAD = 'page_unload',
+  PAGE_HIDE = 'page_hide',
+  PAGE_SHOW = 'page_show',
   ADD_TO_CART = 'add_to_cart',
   CHECKOUT_START = 'checkout_start',
   PURCHASE = 'purchase',
@@ -81,6 +83,11 @@ export interface ApiResponse<T = any> {
   message?: string;
 }
 
+export interface CollectResponse {
+  accepted: number;
+  event_ids: string[];
+}
+
 export interface HealthCheckResponse {
   status: string;
   timestamp: string;
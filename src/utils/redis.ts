@@ -1,17 +1,35 @@
 /**
  * Redis Utility - Centralized Redis connection management
  * 
- * Provides a singleton Redis client for the application
+ * Provides a singleton Redis client for the application, plus a dedicated
+ * subscriber connection with reference-counted pub/sub subscriptions
  */
 
+import { createHash } from 'crypto';
 import { Redis } from 'ioredis';
 import { createLogger } from './logger';
 
 const logger = createLogger('redis');
 
+/**
+ * Message delivered to pub/sub handlers
+ */
+export interface PubSubMessage<T = unknown> {
+  channel: string;
+  pattern?: string | undefined; // Set for pattern subscriptions
+  data: T; // JSON-decoded payload
+  received_at: number;
+}
+
+export type PubSubHandler<T = unknown> = (message: PubSubMessage<T>) => void;
+
 class RedisManager {
   private client: Redis | null = null;
   private isConnected = false;
+  private scriptShas: Map<string, string> = new Map();
+  private subscriber: Redis | null = null;
+  private channelHandlers: Map<string, Set<PubSubHandler>> = new Map();
+  private patternHandlers: Map<string, Set<PubSubHandler>> = new Map();
 
   constructor() {
     this.initializeClient();
@@ -102,6 +120,17 @@ class RedisManager {
    * Disconnect from Redis
    */
   public async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      const subscriber = this.subscriber;
+      this.subscriber = null;
+      try {
+        await subscriber.quit();
+      } catch (error) {
+        logger.error('Error closing Redis subscriber connection:', error);
+        subscriber.disconnect();
+      }
+    }
+
     if (this.client) {
       try {
         await this.client.quit();
@@ -137,7 +166,9 @@ class RedisManager {
         status: 'healthy',
         details: {
           connected: this.isConnected,
-          status: this.client.status
+          status: this.client.status,
+          subscriber: this.subscriber?.status ?? 'idle',
+          subscriptions: this.channelHandlers.size + this.patternHandlers.size
         }
       };
     } catch (error) {
@@ -149,9 +180,37 @@ class RedisManager {
   }
 
   /**
-   * Publish message to channel
+   * Run a Lua script atomically.
+   * Uses EVALSHA with the cached SHA1 and falls back to EVAL when the
+   * script is not loaded yet (NOSCRIPT), e.g. after a Redis restart.
    */
-  public async publish(channel: string, message: any): Promise<void> {
+  public async evalScript(
+    script: string,
+    keys: string[],
+    args: Array<string | number>
+  ): Promise<unknown> {
+    const client = this.getClient();
+
+    let sha = this.scriptShas.get(script);
+    if (!sha) {
+      sha = createHash('sha1').update(script).digest('hex');
+      this.scriptShas.set(script, sha);
+    }
+
+    try {
+      return await client.evalsha(sha, keys.length, ...keys, ...args);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('NOSCRIPT')) {
+        return await client.eval(script, keys.length, ...keys, ...args);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Publish message to channel (JSON-encoded)
+   */
+  public async publish<T>(channel: string, message: T): Promise<void> {
     if (!this.client || !this.isRedisConnected()) {
       throw new Error('Redis client not connected');
     }
@@ -165,30 +224,218 @@ class RedisManager {
   }
 
   /**
-   * Subscribe to channel
+   * Subscribe a handler to a channel.
+   * The first handler of a channel issues SUBSCRIBE on the subscriber
+   * connection; the channel is unsubscribed when its last handler leaves.
+   * @returns Function removing this handler
    */
-  public async subscribe(channel: string, callback: (message: any) => void): Promise<void> {
-    if (!this.client || !this.isRedisConnected()) {
-      throw new Error('Redis client not connected');
+  public async subscribe<T = unknown>(
+    channel: string,
+    handler: PubSubHandler<T>
+  ): Promise<() => Promise<void>> {
+    await this.addHandler(this.channelHandlers, channel, handler as PubSubHandler, (subscriber) =>
+      subscriber.subscribe(channel)
+    );
+    return () => this.unsubscribe(channel, handler);
+  }
+
+  /**
+   * Subscribe a handler to a channel pattern (e.g. channel:presence:*)
+   * @returns Function removing this handler
+   */
+  public async psubscribe<T = unknown>(
+    pattern: string,
+    handler: PubSubHandler<T>
+  ): Promise<() => Promise<void>> {
+    await this.addHandler(this.patternHandlers, pattern, handler as PubSubHandler, (subscriber) =>
+      subscriber.psubscribe(pattern)
+    );
+    return () => this.punsubscribe(pattern, handler);
+  }
+
+  /**
+   * Remove a channel handler, or every handler of the channel when omitted
+   */
+  public async unsubscribe<T = unknown>(
+    channel: string,
+    handler?: PubSubHandler<T>
+  ): Promise<void> {
+    await this.removeHandler(
+      this.channelHandlers,
+      channel,
+      handler as PubSubHandler | undefined,
+      (subscriber) => subscriber.unsubscribe(channel)
+    );
+  }
+
+  /**
+   * Remove a pattern handler, or every handler of the pattern when omitted
+   */
+  public async punsubscribe<T = unknown>(
+    pattern: string,
+    handler?: PubSubHandler<T>
+  ): Promise<void> {
+    await this.removeHandler(
+      this.patternHandlers,
+      pattern,
+      handler as PubSubHandler | undefined,
+      (subscriber) => subscriber.punsubscribe(pattern)
+    );
+  }
+
+  /**
+   * Register a handler, subscribing on Redis for the first one
+   */
+  private async addHandler(
+    registry: Map<string, Set<PubSubHandler>>,
+    name: string,
+    handler: PubSubHandler,
+    subscribe: (subscriber: Redis) => Promise<unknown>
+  ): Promise<void> {
+    const handlers = registry.get(name);
+    if (handlers) {
+      handlers.add(handler);
+      return;
     }
 
+    registry.set(name, new Set([handler]));
     try {
-      await this.client.subscribe(channel);
-      this.client.on('message', (receivedChannel, message) => {
-        if (receivedChannel === channel) {
-          try {
-            const parsedMessage = JSON.parse(message);
-            callback(parsedMessage);
-          } catch (error) {
-            logger.error('Failed to parse message:', error);
-          }
-        }
-      });
+      await subscribe(this.getSubscriber());
     } catch (error) {
-      logger.error('Failed to subscribe to channel:', error);
+      // Only this handler is dropped: handlers added by concurrent callers while
+      // the SUBSCRIBE was pending stay registered and are restored on reconnect
+      const current = registry.get(name);
+      current?.delete(handler);
+      if (current?.size === 0) {
+        registry.delete(name);
+      }
+      logger.error(`Failed to subscribe to ${name}:`, error);
       throw error;
     }
   }
+
+  /**
+   * Remove a handler, unsubscribing on Redis once none are left
+   */
+  private async removeHandler(
+    registry: Map<string, Set<PubSubHandler>>,
+    name: string,
+    handler: PubSubHandler | undefined,
+    unsubscribe: (subscriber: Redis) => Promise<unknown>
+  ): Promise<void> {
+    const handlers = registry.get(name);
+    if (!handlers) return;
+
+    if (handler) {
+      handlers.delete(handler);
+      if (handlers.size > 0) return;
+    }
+    registry.delete(name);
+
+    if (!this.subscriber) return;
+    try {
+      await unsubscribe(this.subscriber);
+    } catch (error) {
+      logger.error(`Failed to unsubscribe from ${name}:`, error);
+    }
+  }
+
+  /**
+   * Get the dedicated subscriber connection, creating it on first use.
+   * A connection in subscriber mode cannot run regular commands, so
+   * pub/sub never shares the command client.
+   */
+  private getSubscriber(): Redis {
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    const subscriber = this.getClient().duplicate({
+      lazyConnect: false,
+      enableOfflineQueue: true,
+      // Subscriptions are restored from the handler registry on 'ready'
+      autoResubscribe: false
+    });
+
+    subscriber.on('message', (channel: string, message: string) => {
+      this.dispatch(this.channelHandlers.get(channel), channel, undefined, message);
+    });
+
+    subscriber.on('pmessage', (pattern: string, channel: string, message: string) => {
+      this.dispatch(this.patternHandlers.get(pattern), channel, pattern, message);
+    });
+
+    // Commands queued while offline are replayed by ioredis; subscriptions
+    // that existed before a reconnect are restored here
+    let connectedBefore = false;
+    subscriber.on('ready', () => {
+      if (connectedBefore) {
+        this.resubscribe(subscriber);
+      }
+      connectedBefore = true;
+    });
+
+    subscriber.on('error', (error) => {
+      logger.error('Redis subscriber error:', error);
+    });
+
+    this.subscriber = subscriber;
+    return subscriber;
+  }
+
+  /**
+   * Restore channel and pattern subscriptions after a reconnect
+   */
+  private resubscribe(subscriber: Redis): void {
+    const channels = [...this.channelHandlers.keys()];
+    const patterns = [...this.patternHandlers.keys()];
+
+    if (channels.length > 0) {
+      subscriber.subscribe(...channels).catch((error) => {
+        logger.error('Failed to restore channel subscriptions:', error);
+      });
+    }
+    if (patterns.length > 0) {
+      subscriber.psubscribe(...patterns).catch((error) => {
+        logger.error('Failed to restore pattern subscriptions:', error);
+      });
+    }
+
+    if (channels.length + patterns.length > 0) {
+      logger.info(`Redis subscriber restored ${channels.length} channels and ${patterns.length} patterns`);
+    }
+  }
+
+  /**
+   * Parse a pub/sub message once and hand the envelope to every handler
+   */
+  private dispatch(
+    handlers: Set<PubSubHandler> | undefined,
+    channel: string,
+    pattern: string | undefined,
+    message: string
+  ): void {
+    if (!handlers || handlers.size === 0) {
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(message);
+    } catch (error) {
+      logger.error(`Failed to parse message on ${channel}:`, error);
+      return;
+    }
+
+    const envelope: PubSubMessage = { channel, pattern, data, received_at: Date.now() };
+    for (const handler of handlers) {
+      try {
+        handler(envelope);
+      } catch (error) {
+        logger.error(`Pub/sub handler failed on ${channel}:`, error);
+      }
+    }
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,115 @@
+import {
+  addDays,
+  formatDay,
+  formatZonedDateTime,
+  getDayBounds,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  listDays,
+  startOfDay,
+  startOfHour,
+} from './timezone';
+
+const NEW_YORK = 'America/New_York';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('timezone utils', () => {
+  describe('isValidTimeZone', () => {
+    it('accepts IANA names and rejects unknown ones', () => {
+      expect(isValidTimeZone(NEW_YORK)).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('follows DST', () => {
+      expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), NEW_YORK)).toBe(-5 * HOUR_MS);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), NEW_YORK)).toBe(-4 * HOUR_MS);
+    });
+  });
+
+  describe('formatDay', () => {
+    it('uses the calendar day of the timezone', () => {
+      const instant = new Date('2024-03-10T03:30:00Z');
+
+      expect(formatDay(instant)).toBe('2024-03-10');
+      expect(formatDay(instant, NEW_YORK)).toBe('2024-03-09');
+    });
+  });
+
+  describe('startOfDay / getDayBounds', () => {
+    it('returns UTC midnight by default', () => {
+      expect(startOfDay('2024-03-10').toISOString()).toBe('2024-03-10T00:00:00.000Z');
+    });
+
+    it('spans 24 hours on a regular day', () => {
+      const { start, end } = getDayBounds('2024-01-15', NEW_YORK);
+
+      expect(start.toISOString()).toBe('2024-01-15T05:00:00.000Z');
+      expect(end.getTime() - start.getTime()).toBe(24 * HOUR_MS);
+    });
+
+    it('spans 23 hours on the spring-forward day', () => {
+      const { start, end } = getDayBounds('2024-03-10', NEW_YORK);
+
+      expect(start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-03-11T04:00:00.000Z');
+      expect(end.getTime() - start.getTime()).toBe(23 * HOUR_MS);
+    });
+
+    it('spans 25 hours on the fall-back day', () => {
+      const { start, end } = getDayBounds('2024-11-03', NEW_YORK);
+
+      expect(start.toISOString()).toBe('2024-11-03T04:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-11-04T05:00:00.000Z');
+      expect(end.getTime() - start.getTime()).toBe(25 * HOUR_MS);
+    });
+
+    it('rejects malformed days', () => {
+      expect(() => startOfDay('2024-3-10')).toThrow('Invalid day: 2024-3-10');
+    });
+  });
+
+  describe('addDays / listDays', () => {
+    it('shifts across month and year boundaries', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('lists days inclusively', () => {
+      expect(listDays('2024-03-09', '2024-03-11')).toEqual([
+        '2024-03-09',
+        '2024-03-10',
+        '2024-03-11',
+      ]);
+      expect(listDays('2024-03-11', '2024-03-09')).toEqual([]);
+    });
+  });
+
+  describe('startOfHour', () => {
+    it('truncates to the wall-clock hour', () => {
+      const instant = new Date('2024-03-10T07:45:12.345Z');
+
+      expect(startOfHour(instant, NEW_YORK).toISOString()).toBe('2024-03-10T07:00:00.000Z');
+    });
+
+    it('truncates to the half hour in zones with a 30 minute offset', () => {
+      const instant = new Date('2024-01-15T10:15:00Z');
+
+      expect(startOfHour(instant, 'Asia/Kolkata').toISOString()).toBe('2024-01-15T09:30:00.000Z');
+    });
+  });
+
+  describe('formatZonedDateTime', () => {
+    it('includes the offset in effect at the instant', () => {
+      expect(formatZonedDateTime(new Date('2024-03-10T06:59:00Z'), NEW_YORK)).toBe(
+        '2024-03-10T01:59:00-05:00'
+      );
+      expect(formatZonedDateTime(new Date('2024-03-10T07:00:00Z'), NEW_YORK)).toBe(
+        '2024-03-10T03:00:00-04:00'
+      );
+    });
+  });
+});
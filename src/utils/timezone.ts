@@ -0,0 +1,170 @@
+/**
+ * Timezone Utility - Calendar day helpers for IANA timezones
+ *
+ * Day strings are always `YYYY-MM-DD` in the given timezone. Conversions use
+ * Intl so DST transitions (23h / 25h days) are handled correctly.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Cached formatter for a timezone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Parse a `YYYY-MM-DD` string into UTC date parts
+ */
+function parseDay(day: string): { year: number; month: number; date: number } {
+  const match = DAY_PATTERN.exec(day);
+  if (!match) {
+    throw new Error(`Invalid day: ${day}`);
+  }
+  return { year: Number(match[1]), month: Number(match[2]), date: Number(match[3]) };
+}
+
+/**
+ * Check whether a string is a valid IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant (ms, east positive)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p['year'] ?? 0,
+    (p['month'] ?? 1) - 1,
+    p['day'] ?? 1,
+    p['hour'] ?? 0,
+    p['minute'] ?? 0,
+    p['second'] ?? 0
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Calendar day of an instant in a timezone
+ */
+export function formatDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(date, timeZone);
+  return [p['year'], p['month'], p['day']]
+    .map((value, i) => String(value).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+/**
+ * Start instant of a calendar day in a timezone
+ */
+export function startOfDay(day: string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, date } = parseDay(day);
+  const utcMidnight = Date.UTC(year, month - 1, date);
+
+  // Two passes so the offset is taken at the resulting instant (DST days)
+  let instant = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  instant = utcMidnight - getTimeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Half-open [start, end) range of a calendar day in a timezone
+ */
+export function getDayBounds(
+  day: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): { start: Date; end: Date } {
+  return {
+    start: startOfDay(day, timeZone),
+    end: startOfDay(addDays(day, 1), timeZone),
+  };
+}
+
+/**
+ * Shift a `YYYY-MM-DD` day by a number of days
+ */
+export function addDays(day: string, days: number): string {
+  const { year, month, date } = parseDay(day);
+  return new Date(Date.UTC(year, month - 1, date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Inclusive list of days between two `YYYY-MM-DD` strings
+ */
+export function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Start instant of the wall-clock hour containing the given instant
+ */
+export function startOfHour(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const p = getZonedParts(date, timeZone);
+  const intoHour = ((p['minute'] ?? 0) * 60 + (p['second'] ?? 0)) * 1000 + date.getUTCMilliseconds();
+  return new Date(date.getTime() - intoHour);
+}
+
+/**
+ * ISO 8601 wall-clock time of an instant in a timezone, with its UTC offset
+ * (e.g. `2024-03-10T03:00:00-04:00`)
+ */
+export function formatZonedDateTime(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(date, timeZone);
+  const pad = (value: number | undefined, length = 2): string =>
+    String(value ?? 0).padStart(length, '0');
+
+  const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60_000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absOffset = Math.abs(offsetMinutes);
+
+  return (
+    `${pad(p['year'], 4)}-${pad(p['month'])}-${pad(p['day'])}` +
+    `T${pad(p['hour'])}:${pad(p['minute'])}:${pad(p['second'])}` +
+    `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`
+  );
+}
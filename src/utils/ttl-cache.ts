@@ -0,0 +1,95 @@
+/**
+ * TTL Cache - Bounded in-memory cache with expiry and in-flight dedup
+ *
+ * Entries expire after `ttlMs`; once `maxEntries` is reached the least
+ * recently used entry is evicted, so keys taken from untrusted input (e.g. a
+ * `shop` query parameter) cannot grow memory without limit. `getOrLoad`
+ * caches the pending promise, so concurrent misses for the same key share a
+ * single load. Failed loads are not cached.
+ */
+
+interface CacheEntry<V> {
+  value: Promise<V>;
+  expires_at: number;
+}
+
+export class TtlCache<V> {
+  private entries: Map<string, CacheEntry<V>> = new Map();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  /**
+   * @param ttlMs - Entry lifetime (ms)
+   * @param maxEntries - Maximum number of entries kept
+   */
+  constructor(ttlMs: number, maxEntries: number) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Returns the cached value, loading it on a miss
+   * @param key - Cache key
+   * @param loader - Called once per miss; concurrent callers await the same promise
+   * @returns Cached or loaded value
+   */
+  public async getOrLoad(key: string, loader: () => Promise<V>): Promise<V> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+
+    if (cached && cached.expires_at > now) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return await cached.value;
+    }
+
+    const value = loader();
+    const entry: CacheEntry<V> = { value, expires_at: now + this.ttlMs };
+    this.store(key, entry);
+
+    try {
+      return await value;
+    } catch (error) {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a key, or every key when omitted
+   * @param key - Cache key
+   */
+  public invalidate(key?: string): void {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Number of entries currently held (including expired ones not yet evicted)
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Inserts an entry, evicting least recently used entries when full
+   */
+  private store(key: string, entry: CacheEntry<V>): void {
+    this.entries.delete(key);
+
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+    }
+
+    this.entries.set(key, entry);
+  }
+}